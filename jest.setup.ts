@@ -0,0 +1,4 @@
+// The Supabase client is created on import; tests mock anything that would
+// reach it, so placeholder settings are enough
+process.env.SUPABASE_URL ??= "http://localhost:54321";
+process.env.SUPABASE_SERVICE_KEY ??= "test-service-key";
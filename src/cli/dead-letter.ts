@@ -0,0 +1,87 @@
+import dotenv from "dotenv";
+import { listDeadLetterJobs, requeueDeadLetterJobs } from "../utils/database";
+import { DeadLetterInfo } from "../types";
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage:
+  dead-letter list [limit]          List dead-lettered jobs
+  dead-letter requeue <jobId...>    Requeue specific jobs
+  dead-letter requeue --all         Requeue every dead-lettered job`;
+
+/**
+ * Print the dead-letter queue
+ */
+async function listJobs(limit: number): Promise<void> {
+  const jobs = await listDeadLetterJobs(limit);
+
+  if (jobs.length === 0) {
+    console.log("📭 Dead-letter queue is empty");
+    return;
+  }
+
+  console.log(`💀 ${jobs.length} dead-lettered jobs:`);
+  for (const job of jobs) {
+    const deadLetter: DeadLetterInfo | undefined = job.result?.deadLetter;
+    console.log(
+      `  - ${job.id}: ${job.type} | upload ${job.upload_id}${
+        deadLetter?.upload ? ` (${deadLetter.upload.filename})` : ""
+      } | ${deadLetter?.attempts ?? job.attempts} attempts | ${
+        deadLetter?.deadLetteredAt ?? job.updated_at
+      }`
+    );
+    console.log(
+      `      ${job.error || deadLetter?.reason || "no error recorded"}`
+    );
+  }
+}
+
+/**
+ * Requeue selected jobs, or all of them with --all
+ */
+async function requeueJobs(args: string[]): Promise<void> {
+  const requeueAll = args.includes("--all");
+  const jobIds = args.filter((arg) => arg !== "--all");
+
+  if (!requeueAll && jobIds.length === 0) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const requeued = await requeueDeadLetterJobs(
+    requeueAll ? undefined : jobIds
+  );
+  console.log(`🔄 Requeued ${requeued.length} jobs`);
+  requeued.forEach((job) => console.log(`  - ${job.id}`));
+
+  if (!requeueAll && requeued.length < jobIds.length) {
+    const requeuedIds = new Set(requeued.map((job) => job.id));
+    const skipped = jobIds.filter((id) => !requeuedIds.has(id));
+    console.warn(`⚠️ Not in the dead-letter queue: ${skipped.join(", ")}`);
+  }
+}
+
+/**
+ * Operator CLI for the dead-letter queue
+ */
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case "list":
+      await listJobs(parseInt(args[0] || "100"));
+      break;
+    case "requeue":
+      await requeueJobs(args);
+      break;
+    default:
+      console.error(USAGE);
+      process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Dead-letter command failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import dotenv from "dotenv";
+import { enqueueJob, listLatestUploadPerOwner } from "../utils/database";
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage:
+  rehash-urls --all            Queue a rehash job for every owner
+  rehash-urls <uploadId...>    Queue rehash jobs for the owners of these uploads`;
+
+/**
+ * Operator CLI for the canonical URL migration
+ * Jobs are tied to an upload, which identifies the owner to re-hash
+ */
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+
+  if (args.length === 0) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const uploadIds =
+    args[0] === "--all"
+      ? (await listLatestUploadPerOwner()).map((upload) => upload.id)
+      : args;
+
+  for (const uploadId of uploadIds) {
+    const job = await enqueueJob(uploadId, "rehash_urls");
+    console.log(`🔗 Queued rehash job ${job.id} for upload ${uploadId}`);
+  }
+
+  console.log(`✅ Queued ${uploadIds.length} rehash jobs`);
+}
+
+main().catch((error) => {
+  console.error("❌ Rehash-urls command failed:", error);
+  process.exit(1);
+});
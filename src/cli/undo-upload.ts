@@ -0,0 +1,30 @@
+import dotenv from "dotenv";
+import { enqueueJob } from "../utils/database";
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage:
+  undo-upload <uploadId...>    Queue jobs that revert each upload's import`;
+
+/**
+ * Operator CLI for reverting imports
+ */
+async function main(): Promise<void> {
+  const uploadIds = process.argv.slice(2);
+
+  if (uploadIds.length === 0) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  for (const uploadId of uploadIds) {
+    const job = await enqueueJob(uploadId, "undo_upload");
+    console.log(`⏪ Queued undo job ${job.id} for upload ${uploadId}`);
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Undo-upload command failed:", error);
+  process.exit(1);
+});
@@ -26,19 +26,25 @@ export const supabase: SupabaseClient = createClient(
     }
   }
 );
+/**
+ * Check that the database is reachable
+ * Throws instead of exiting so health probes can report the failure
+ */
+export async function checkDatabaseConnection(): Promise<void> {
+  const { error } = await supabase
+    .from('uploads')
+    .select('count')
+    .limit(1);
+
+  if (error) {
+    throw new Error(`Supabase connection test failed: ${error.message}`);
+  }
+}
+
 // Test connection on startup
 export async function testConnection(): Promise<void> {
   try {
-    const { error } = await supabase
-      .from('uploads')
-      .select('count')
-      .limit(1);
-
-    if (error) {
-      console.error('❌ Supabase connection test failed:', error.message);
-      process.exit(1);
-    }
-
+    await checkDatabaseConnection();
     console.log('✅ Supabase connection established');
   } catch (error) {
     console.error('❌ Failed to connect to Supabase:', error);
@@ -0,0 +1,233 @@
+/**
+ * Admin control API for a running worker
+ * Served under /admin/ by the health server and authenticated with ADMIN_API_TOKEN
+ */
+
+import http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ValidationError } from '../types';
+import {
+  setWorkerPaused,
+  requestWorkerDrain,
+  cancelActiveJob,
+  getActiveJobIds,
+  runCleanup,
+  updateWorkerConfig,
+  getWorkerHealth,
+  RuntimeConfigUpdate
+} from './worker-state';
+
+const ADMIN_API_TOKEN = process.env.ADMIN_API_TOKEN || '';
+const MAX_BODY_BYTES = 16 * 1024;
+const RUNTIME_CONFIG_KEYS: Array<keyof RuntimeConfigUpdate> = [
+  'pollInterval',
+  'batchSize',
+  'jobConcurrency'
+];
+
+type AdminAction = (body: Record<string, unknown>) => Promise<Record<string, unknown>>;
+
+/**
+ * Check the request's bearer token against ADMIN_API_TOKEN
+ */
+function isAuthorized(req: http.IncomingMessage): boolean {
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  if (scheme !== 'Bearer' || !token) return false;
+
+  // Hash both sides so the comparison is constant time whatever the lengths
+  const expected = createHash('sha256').update(ADMIN_API_TOKEN).digest();
+  const actual = createHash('sha256').update(token).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Read a small JSON request body; an empty body is treated as {}
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  let raw = '';
+  for await (const chunk of req) {
+    raw += chunk;
+    if (raw.length > MAX_BODY_BYTES) {
+      throw new ValidationError('Request body too large');
+    }
+  }
+
+  if (!raw.trim()) return {};
+
+  let body: unknown;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Validate a runtime config update from a request body
+ */
+function parseConfigUpdate(body: Record<string, unknown>): RuntimeConfigUpdate {
+  const unknownKeys = Object.keys(body).filter(
+    (key) => !RUNTIME_CONFIG_KEYS.includes(key as keyof RuntimeConfigUpdate)
+  );
+  if (unknownKeys.length > 0) {
+    throw new ValidationError(
+      `Unsupported settings: ${unknownKeys.join(', ')} (allowed: ${RUNTIME_CONFIG_KEYS.join(', ')})`
+    );
+  }
+
+  const update: RuntimeConfigUpdate = {};
+  for (const key of RUNTIME_CONFIG_KEYS) {
+    const value = body[key];
+    if (value === undefined) continue;
+
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      throw new ValidationError(`${key} must be a positive integer`);
+    }
+    update[key] = value;
+  }
+
+  if (Object.keys(update).length === 0) {
+    throw new ValidationError(
+      `Provide at least one of: ${RUNTIME_CONFIG_KEYS.join(', ')}`
+    );
+  }
+  return update;
+}
+
+const actions: Record<string, AdminAction> = {
+  '/admin/pause': async () => {
+    setWorkerPaused(true);
+    console.log('⏸️ Polling paused by admin request');
+    return { paused: true };
+  },
+
+  '/admin/resume': async () => {
+    setWorkerPaused(false);
+    console.log('▶️ Polling resumed by admin request');
+    return { paused: false };
+  },
+
+  '/admin/drain': async () => {
+    requestWorkerDrain();
+    console.log('🚰 Drain requested by admin request');
+    return { draining: true, activeJobs: getActiveJobIds() };
+  },
+
+  '/admin/cancel': async (body) => {
+    const reason =
+      typeof body.reason === 'string' && body.reason.trim()
+        ? body.reason.trim()
+        : 'Cancelled by operator';
+
+    let jobIds: string[];
+    if (body.jobId !== undefined) {
+      if (typeof body.jobId !== 'string') {
+        throw new ValidationError('jobId must be a string');
+      }
+      jobIds = [body.jobId];
+    } else {
+      jobIds = getActiveJobIds();
+    }
+
+    if (jobIds.length === 0) {
+      throw new ValidationError('No job is running on this worker');
+    }
+
+    for (const jobId of jobIds) {
+      if (!cancelActiveJob(jobId, reason)) {
+        throw new ValidationError(`Job ${jobId} is not running on this worker`);
+      }
+      console.log(`🛑 Cancelling job ${jobId} by admin request: ${reason}`);
+    }
+    return { cancelled: jobIds };
+  },
+
+  '/admin/cleanup': async () => {
+    await runCleanup();
+    return { cleanedUp: true };
+  },
+
+  '/admin/config': async (body) => {
+    const update = parseConfigUpdate(body);
+    updateWorkerConfig(update);
+    console.log('⚙️ Worker configuration updated by admin request:', update);
+    return { updated: update };
+  }
+};
+
+/**
+ * Check whether a path belongs to the admin API
+ */
+export function isAdminPath(path: string): boolean {
+  return path === '/admin' || path.startsWith('/admin/');
+}
+
+/**
+ * Handle a request under /admin/
+ */
+export async function handleAdminRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  path: string
+): Promise<void> {
+  if (!ADMIN_API_TOKEN) {
+    res.writeHead(404);
+    res.end(JSON.stringify({ error: 'Admin API is disabled; set ADMIN_API_TOKEN to enable it' }));
+    return;
+  }
+
+  const action = actions[path];
+  if (!action) {
+    res.writeHead(404);
+    res.end(JSON.stringify({ error: 'Not found', path }));
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.writeHead(405);
+    res.end(JSON.stringify({ error: 'Method not allowed' }));
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.writeHead(401);
+    res.end(JSON.stringify({ error: 'Unauthorized' }));
+    return;
+  }
+
+  try {
+    const body = await readJsonBody(req);
+    const result = await action(body);
+    const worker = getWorkerHealth();
+
+    res.writeHead(200);
+    res.end(JSON.stringify({
+      ok: true,
+      ...result,
+      worker: {
+        status: worker.status,
+        isPaused: worker.isPaused,
+        isDraining: worker.isDraining,
+        activeJobs: worker.activeJobs,
+        config: worker.config
+      }
+    }, null, 2));
+  } catch (error) {
+    const isBadRequest = error instanceof ValidationError;
+    if (!isBadRequest) {
+      console.error(`Admin request ${path} failed:`, error);
+    }
+
+    res.writeHead(isBadRequest ? 400 : 500);
+    res.end(JSON.stringify({
+      ok: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }));
+  }
+}
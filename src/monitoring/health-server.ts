@@ -2,7 +2,9 @@ import http from 'http';
 import { getWorkerHealth } from './worker-state';
 import { getJobStats } from '../utils/database';
 import { testStorageConnection } from '../utils/storage';
-import { testConnection } from '../config/supabase';
+import { checkDatabaseConnection } from '../config/supabase';
+import { renderMetrics } from './metrics';
+import { isAdminPath, handleAdminRequest } from './admin-api';
 
 const HEALTH_PORT = parseInt(process.env.HEALTH_PORT || '3001');
 
@@ -13,7 +15,10 @@ interface HealthStatus {
   worker: {
     status: string;
     isShuttingDown: boolean;
+    isPaused: boolean;
+    isDraining: boolean;
     currentJob: any;
+    activeJobs: any[];
     jobsProcessed: number;
     uptime: number;
     memoryUsage: NodeJS.MemoryUsage;
@@ -22,10 +27,12 @@ interface HealthStatus {
   database: {
     connected: boolean;
     lastCheck: string;
+    error: string | null;
   };
   storage: {
     connected: boolean;
     lastCheck: string;
+    error: string | null;
   };
   jobs: {
     stats: Array<{ status: string; count: number }>;
@@ -39,28 +46,43 @@ interface HealthStatus {
   };
 }
 
-let lastDatabaseCheck = new Date();
-let lastStorageCheck = new Date();
-let lastJobStatsCheck = new Date();
+interface ReadinessStatus {
+  ready: boolean;
+  timestamp: string;
+  checks: {
+    database: boolean;
+    storage: boolean;
+    worker: boolean;
+  };
+}
+
+// Start at the epoch so the first probe runs the checks instead of
+// reporting dependencies as down until the interval elapses
+let lastDatabaseCheck = new Date(0);
+let lastStorageCheck = new Date(0);
+let lastJobStatsCheck = new Date(0);
 let databaseHealthy = false;
 let storageHealthy = false;
+let databaseError: string | null = null;
+let storageError: string | null = null;
 let jobStats: Array<{ status: string; count: number }> = [];
 
 /**
- * Perform health checks
+ * Re-run the database and storage checks when their results are stale
+ * Failures are recorded, never thrown, so a probe cannot take the worker down
  */
-async function performHealthChecks(): Promise<HealthStatus> {
-  const now = new Date();
-
+async function refreshDependencyChecks(now: Date): Promise<void> {
   // Check database connection (every 30 seconds)
   if (now.getTime() - lastDatabaseCheck.getTime() > 30000) {
     try {
-      await testConnection();
+      await checkDatabaseConnection();
       databaseHealthy = true;
+      databaseError = null;
       lastDatabaseCheck = now;
     } catch (error) {
       console.error('Database health check failed:', error);
       databaseHealthy = false;
+      databaseError = error instanceof Error ? error.message : String(error);
     }
   }
 
@@ -68,12 +90,23 @@ async function performHealthChecks(): Promise<HealthStatus> {
   if (now.getTime() - lastStorageCheck.getTime() > 30000) {
     try {
       storageHealthy = await testStorageConnection();
+      storageError = storageHealthy ? null : 'Storage bucket is not reachable';
       lastStorageCheck = now;
     } catch (error) {
       console.error('Storage health check failed:', error);
       storageHealthy = false;
+      storageError = error instanceof Error ? error.message : String(error);
     }
   }
+}
+
+/**
+ * Perform health checks
+ */
+async function performHealthChecks(): Promise<HealthStatus> {
+  const now = new Date();
+
+  await refreshDependencyChecks(now);
 
   // Get job statistics (every 60 seconds)
   if (now.getTime() - lastJobStatsCheck.getTime() > 60000) {
@@ -105,11 +138,13 @@ async function performHealthChecks(): Promise<HealthStatus> {
     worker: getWorkerHealth(),
     database: {
       connected: databaseHealthy,
-      lastCheck: lastDatabaseCheck.toISOString()
+      lastCheck: lastDatabaseCheck.toISOString(),
+      error: databaseError
     },
     storage: {
       connected: storageHealthy,
-      lastCheck: lastStorageCheck.toISOString()
+      lastCheck: lastStorageCheck.toISOString(),
+      error: storageError
     },
     jobs: {
       stats: jobStats,
@@ -124,6 +159,87 @@ async function performHealthChecks(): Promise<HealthStatus> {
   };
 }
 
+/**
+ * Check whether the worker should receive traffic
+ */
+async function performReadinessCheck(): Promise<ReadinessStatus> {
+  const now = new Date();
+
+  await refreshDependencyChecks(now);
+
+  const workerHealth = getWorkerHealth();
+  const checks = {
+    database: databaseHealthy,
+    storage: storageHealthy,
+    // Paused and draining workers are deliberately out of rotation
+    worker: workerHealth.status === 'running' &&
+      !workerHealth.isShuttingDown &&
+      !workerHealth.isPaused &&
+      !workerHealth.isDraining
+  };
+
+  return {
+    ready: checks.database && checks.storage && checks.worker,
+    timestamp: now.toISOString(),
+    checks
+  };
+}
+
+type RouteHandler = (res: http.ServerResponse) => Promise<void>;
+
+/**
+ * Liveness: the process is up and its event loop is serving requests
+ */
+async function handleLiveness(res: http.ServerResponse): Promise<void> {
+  res.writeHead(200);
+  res.end(JSON.stringify({
+    status: 'alive',
+    timestamp: new Date().toISOString(),
+    uptime: process.uptime()
+  }));
+}
+
+/**
+ * Readiness: dependencies are reachable and the worker is not shutting down
+ */
+async function handleReadiness(res: http.ServerResponse): Promise<void> {
+  const readiness = await performReadinessCheck();
+  res.writeHead(readiness.ready ? 200 : 503);
+  res.end(JSON.stringify(readiness, null, 2));
+}
+
+/**
+ * Detailed status of the worker and its dependencies
+ */
+async function handleHealth(res: http.ServerResponse): Promise<void> {
+  const health = await performHealthChecks();
+
+  // Set HTTP status based on health
+  const statusCode = health.status === 'healthy' ? 200 :
+                    health.status === 'degraded' ? 200 : 503;
+
+  res.writeHead(statusCode);
+  res.end(JSON.stringify(health, null, 2));
+}
+
+/**
+ * Prometheus scrape endpoint
+ */
+async function handleMetrics(res: http.ServerResponse): Promise<void> {
+  const metrics = await renderMetrics();
+  res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.writeHead(200);
+  res.end(metrics);
+}
+
+const routes: Record<string, RouteHandler> = {
+  '/': handleHealth,
+  '/health': handleHealth,
+  '/livez': handleLiveness,
+  '/readyz': handleReadiness,
+  '/metrics': handleMetrics
+};
+
 /**
  * Create HTTP health check server
  */
@@ -141,6 +257,38 @@ export function createHealthServer(): http.Server {
       return;
     }
 
+    let path: string;
+    try {
+      path = new URL(req.url || '/', 'http://localhost').pathname;
+    } catch {
+      res.writeHead(400);
+      res.end(JSON.stringify({ error: 'Bad request target' }));
+      return;
+    }
+
+    if (isAdminPath(path)) {
+      try {
+        await handleAdminRequest(req, res, path);
+      } catch (error) {
+        console.error(`Admin route ${path} failed:`, error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end(JSON.stringify({
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }));
+      }
+      return;
+    }
+
+    const route = routes[path];
+
+    if (!route) {
+      res.writeHead(404);
+      res.end(JSON.stringify({ error: 'Not found', path }));
+      return;
+    }
+
     if (req.method !== 'GET') {
       res.writeHead(405);
       res.end(JSON.stringify({ error: 'Method not allowed' }));
@@ -148,17 +296,10 @@ export function createHealthServer(): http.Server {
     }
 
     try {
-      const health = await performHealthChecks();
-
-      // Set HTTP status based on health
-      const statusCode = health.status === 'healthy' ? 200 :
-                        health.status === 'degraded' ? 200 : 503;
-
-      res.writeHead(statusCode);
-      res.end(JSON.stringify(health, null, 2));
-
+      await route(res);
     } catch (error) {
-      console.error('Health check failed:', error);
+      console.error(`Health route ${path} failed:`, error);
+      res.setHeader('Content-Type', 'application/json');
       res.writeHead(503);
       res.end(JSON.stringify({
         status: 'unhealthy',
@@ -179,7 +320,9 @@ export function startHealthServer(): void {
 
   server.listen(HEALTH_PORT, () => {
     console.log(`🏥 Health check server running on port ${HEALTH_PORT}`);
-    console.log(`📊 Health endpoint: http://localhost:${HEALTH_PORT}/`);
+    console.log(`📊 Health endpoint: http://localhost:${HEALTH_PORT}/health`);
+    console.log(`💓 Probes: http://localhost:${HEALTH_PORT}/livez, http://localhost:${HEALTH_PORT}/readyz`);
+    console.log(`📈 Metrics endpoint: http://localhost:${HEALTH_PORT}/metrics`);
   });
 
   // Graceful shutdown
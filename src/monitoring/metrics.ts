@@ -0,0 +1,270 @@
+/**
+ * Prometheus metrics for the worker
+ * A small in-process registry rendered in the Prometheus text exposition format
+ */
+
+import { BatchProcessResult } from '../types';
+import { getJobStats } from '../utils/database';
+import { getActiveJobCount, getOldestActiveJobAge } from './worker-state';
+
+type Labels = Record<string, string>;
+
+interface CounterMetric {
+  type: 'counter';
+  help: string;
+  values: Map<string, { labels: Labels; value: number }>;
+}
+
+interface HistogramMetric {
+  type: 'histogram';
+  help: string;
+  buckets: number[];
+  series: Map<
+    string,
+    { labels: Labels; bucketCounts: number[]; sum: number; count: number }
+  >;
+}
+
+const METRIC_PREFIX = 'csv_worker_';
+
+// Batch insert latency buckets in seconds
+const BATCH_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+const counters: Record<string, CounterMetric> = {
+  jobs_processed_total: counter('Jobs picked up and run to completion or failure'),
+  jobs_succeeded_total: counter('Jobs that finished successfully'),
+  jobs_failed_total: counter('Jobs that failed'),
+  rows_parsed_total: counter('CSV data rows parsed'),
+  rows_valid_total: counter('CSV data rows that passed validation'),
+  rows_inserted_total: counter('Rows inserted into the database'),
+  rows_duplicate_total: counter('Rows matching existing records'),
+  rows_updated_total: counter('Existing records updated by a merge'),
+  rows_unchanged_total: counter('Existing records a merge left unchanged'),
+  rows_skipped_total: counter('Existing records skipped without merging'),
+};
+
+const histograms: Record<string, HistogramMetric> = {
+  batch_insert_duration_seconds: {
+    type: 'histogram',
+    help: 'Latency of batch insert calls',
+    buckets: BATCH_LATENCY_BUCKETS,
+    series: new Map(),
+  },
+};
+
+function counter(help: string): CounterMetric {
+  return { type: 'counter', help, values: new Map() };
+}
+
+/**
+ * Build a stable series key from a label set
+ */
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}=${labels[key]}`)
+    .join(',');
+}
+
+/**
+ * Escape a label value for the text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Render a label set as {key="value",...}
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+
+  const formatted = entries
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(',');
+  return `{${formatted}}`;
+}
+
+/**
+ * Increment a counter
+ */
+export function incrementCounter(
+  name: keyof typeof counters,
+  value: number = 1,
+  labels: Labels = {}
+): void {
+  const metric = counters[name];
+  const key = labelKey(labels);
+  const series = metric.values.get(key);
+
+  if (series) {
+    series.value += value;
+  } else {
+    metric.values.set(key, { labels, value });
+  }
+}
+
+/**
+ * Record an observation in a histogram
+ */
+export function observeHistogram(
+  name: keyof typeof histograms,
+  value: number,
+  labels: Labels = {}
+): void {
+  const metric = histograms[name];
+  const key = labelKey(labels);
+  let series = metric.series.get(key);
+
+  if (!series) {
+    series = {
+      labels,
+      bucketCounts: metric.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    metric.series.set(key, series);
+  }
+
+  metric.buckets.forEach((bound, index) => {
+    if (value <= bound) series!.bucketCounts[index]++;
+  });
+  series.sum += value;
+  series.count++;
+}
+
+/**
+ * Record the outcome of a finished job
+ */
+export function recordJobOutcome(jobType: string, succeeded: boolean): void {
+  incrementCounter('jobs_processed_total', 1, { type: jobType });
+  incrementCounter(
+    succeeded ? 'jobs_succeeded_total' : 'jobs_failed_total',
+    1,
+    { type: jobType }
+  );
+}
+
+/**
+ * Record a batch insert call and what it wrote
+ */
+export function recordBatchInsert(
+  durationSeconds: number,
+  result: BatchProcessResult
+): void {
+  observeHistogram('batch_insert_duration_seconds', durationSeconds);
+  incrementCounter('rows_inserted_total', result.inserted_count);
+  incrementCounter('rows_duplicate_total', result.duplicate_count);
+  incrementCounter('rows_updated_total', result.updated_count);
+  incrementCounter('rows_unchanged_total', result.unchanged_count);
+  incrementCounter('rows_skipped_total', result.skipped_count);
+}
+
+/**
+ * Render a single gauge sample set
+ */
+function renderGauge(
+  name: string,
+  help: string,
+  samples: Array<{ labels: Labels; value: number }>
+): string[] {
+  return [
+    `# HELP ${METRIC_PREFIX}${name} ${help}`,
+    `# TYPE ${METRIC_PREFIX}${name} gauge`,
+    ...samples.map(
+      ({ labels, value }) =>
+        `${METRIC_PREFIX}${name}${formatLabels(labels)} ${value}`
+    ),
+  ];
+}
+
+/**
+ * Render all metrics in the Prometheus text format
+ */
+export async function renderMetrics(): Promise<string> {
+  const lines: string[] = [];
+
+  for (const [name, metric] of Object.entries(counters)) {
+    lines.push(`# HELP ${METRIC_PREFIX}${name} ${metric.help}`);
+    lines.push(`# TYPE ${METRIC_PREFIX}${name} counter`);
+    if (metric.values.size === 0) {
+      lines.push(`${METRIC_PREFIX}${name} 0`);
+    }
+    for (const { labels, value } of metric.values.values()) {
+      lines.push(`${METRIC_PREFIX}${name}${formatLabels(labels)} ${value}`);
+    }
+  }
+
+  for (const [name, metric] of Object.entries(histograms)) {
+    lines.push(`# HELP ${METRIC_PREFIX}${name} ${metric.help}`);
+    lines.push(`# TYPE ${METRIC_PREFIX}${name} histogram`);
+    for (const series of metric.series.values()) {
+      metric.buckets.forEach((bound, index) => {
+        lines.push(
+          `${METRIC_PREFIX}${name}_bucket${formatLabels({
+            ...series.labels,
+            le: String(bound),
+          })} ${series.bucketCounts[index]}`
+        );
+      });
+      lines.push(
+        `${METRIC_PREFIX}${name}_bucket${formatLabels({
+          ...series.labels,
+          le: '+Inf',
+        })} ${series.count}`
+      );
+      lines.push(
+        `${METRIC_PREFIX}${name}_sum${formatLabels(series.labels)} ${series.sum}`
+      );
+      lines.push(
+        `${METRIC_PREFIX}${name}_count${formatLabels(series.labels)} ${series.count}`
+      );
+    }
+  }
+
+  // Queue depth comes straight from the jobs table on each scrape
+  const jobStats = await getJobStats();
+  lines.push(
+    ...renderGauge(
+      'queue_depth',
+      'Jobs in the queue by status',
+      jobStats.map(({ status, count }) => ({ labels: { status }, value: count }))
+    )
+  );
+
+  lines.push(
+    ...renderGauge('active_jobs', 'Jobs currently being processed', [
+      { labels: {}, value: getActiveJobCount() },
+    ])
+  );
+  lines.push(
+    ...renderGauge(
+      'current_job_age_seconds',
+      'Age of the oldest job currently being processed',
+      [{ labels: {}, value: getOldestActiveJobAge() }]
+    )
+  );
+
+  const memory = process.memoryUsage();
+  lines.push(
+    ...renderGauge('heap_used_bytes', 'V8 heap in use', [
+      { labels: {}, value: memory.heapUsed },
+    ])
+  );
+  lines.push(
+    ...renderGauge('heap_total_bytes', 'V8 heap allocated', [
+      { labels: {}, value: memory.heapTotal },
+    ])
+  );
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Reset all recorded metrics (for testing)
+ */
+export function resetMetrics(): void {
+  Object.values(counters).forEach((metric) => metric.values.clear());
+  Object.values(histograms).forEach((metric) => metric.series.clear());
+}
@@ -0,0 +1,104 @@
+/**
+ * Stale job reaper
+ * Reclaims running jobs whose worker stopped sending heartbeats
+ * (e.g. an OOM-killed container) so they do not stay running forever
+ */
+
+import {
+  findStaleJobs,
+  claimStaleJob,
+  markJobFailed,
+  updateUploadStatus,
+} from '../utils/database';
+import { getRetryPolicy } from '../processors/registry';
+import { WorkerError } from '../types';
+
+let reaperTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Move every job with an expired heartbeat back to retrying or failed
+ * Safe to run from several workers at once: each job is claimed atomically first
+ */
+export async function reapStaleJobs(staleThresholdMs: number): Promise<number> {
+  const cutoff = new Date(Date.now() - staleThresholdMs);
+  const staleJobs = await findStaleJobs(cutoff);
+  let reaped = 0;
+
+  for (const job of staleJobs) {
+    try {
+      const claimed = await claimStaleJob(job.id, job.last_heartbeat_at ?? null);
+      if (!claimed) {
+        // Another worker got there first, or the job woke up
+        continue;
+      }
+
+      const failure = new WorkerError(
+        `Job heartbeat expired (last heartbeat: ${
+          job.last_heartbeat_at ?? 'never'
+        })`,
+        'HEARTBEAT_EXPIRED',
+        job.id,
+        job.upload_id
+      );
+
+      const failureResult = await markJobFailed(
+        job.id,
+        failure,
+        getRetryPolicy(job.type)
+      );
+      // Only an import owns its upload's status; it fails with the job
+      if (job.type === 'csv_process') {
+        await updateUploadStatus(
+          job.upload_id,
+          failureResult.willRetry ? 'queued' : 'failed',
+          null,
+          failureResult.willRetry ? null : failure.message
+        );
+      }
+      reaped++;
+
+      console.log(
+        `🪦 Reclaimed stale job ${job.id}: ${failureResult.status} (attempt ${failureResult.attempts})`
+      );
+    } catch (error) {
+      console.error(`❌ Failed to reclaim stale job ${job.id}:`, error);
+    }
+  }
+
+  return reaped;
+}
+
+/**
+ * Start reaping stale jobs periodically
+ */
+export function startStaleJobReaper(
+  intervalMs: number,
+  staleThresholdMs: number
+): void {
+  if (reaperTimer) return;
+
+  console.log(
+    `🪦 Stale job reaper running every ${intervalMs}ms (threshold ${staleThresholdMs}ms)`
+  );
+
+  reaperTimer = setInterval(async () => {
+    try {
+      const reaped = await reapStaleJobs(staleThresholdMs);
+      if (reaped > 0) {
+        console.log(`🪦 Reclaimed ${reaped} stale jobs`);
+      }
+    } catch (error) {
+      console.error('❌ Stale job reaper failed:', error);
+    }
+  }, intervalMs);
+}
+
+/**
+ * Stop the periodic reaper
+ */
+export function stopStaleJobReaper(): void {
+  if (reaperTimer) {
+    clearInterval(reaperTimer);
+    reaperTimer = null;
+  }
+}
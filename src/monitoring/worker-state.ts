@@ -8,10 +8,20 @@ import type { Job, WorkerConfig } from '../types/index.js';
 // Worker state
 let isRunning = false;
 let isShuttingDown = false;
-let currentJob: Job | null = null;
+let isPaused = false;
+let isDraining = false;
+const activeJobs = new Map<string, Job>();
+const activeJobStartTimes = new Map<string, number>();
+const activeJobControllers = new Map<string, AbortController>();
 let jobsProcessed = 0;
 let startTime = Date.now();
 let workerConfig: Partial<WorkerConfig> = {};
+let batchSizeOverride: number | null = null;
+let cleanupHandler: (() => Promise<void>) | null = null;
+
+export type RuntimeConfigUpdate = Partial<
+  Pick<WorkerConfig, 'pollInterval' | 'batchSize' | 'jobConcurrency'>
+>;
 
 /**
  * Update worker running state
@@ -31,10 +41,87 @@ export function setWorkerShuttingDown(shuttingDown: boolean): void {
 }
 
 /**
- * Update current job
+ * Pause or resume polling for new jobs
+ * Jobs already in flight keep running
+ */
+export function setWorkerPaused(paused: boolean): void {
+  isPaused = paused;
+}
+
+/**
+ * Check whether polling is paused
+ */
+export function isWorkerPaused(): boolean {
+  return isPaused;
+}
+
+/**
+ * Stop polling for good once in-flight jobs finish
+ */
+export function requestWorkerDrain(): void {
+  isDraining = true;
+}
+
+/**
+ * Check whether the worker is draining
  */
-export function setCurrentJob(job: Job | null): void {
-  currentJob = job;
+export function isWorkerDraining(): boolean {
+  return isDraining;
+}
+
+/**
+ * Track a job that has started processing
+ * Returns the signal the job's handler should watch for cancellation
+ */
+export function addActiveJob(job: Job): AbortSignal {
+  const controller = new AbortController();
+  activeJobs.set(job.id, job);
+  activeJobStartTimes.set(job.id, Date.now());
+  activeJobControllers.set(job.id, controller);
+  return controller.signal;
+}
+
+/**
+ * Stop tracking a job once it has finished
+ */
+export function removeActiveJob(jobId: string): void {
+  activeJobs.delete(jobId);
+  activeJobStartTimes.delete(jobId);
+  activeJobControllers.delete(jobId);
+}
+
+/**
+ * Ask an in-flight job to stop
+ * Returns false when the job is not running on this worker
+ */
+export function cancelActiveJob(jobId: string, reason: string): boolean {
+  const controller = activeJobControllers.get(jobId);
+  if (!controller) return false;
+
+  controller.abort(reason);
+  return true;
+}
+
+/**
+ * Get the ids of the jobs currently being processed
+ */
+export function getActiveJobIds(): string[] {
+  return Array.from(activeJobs.keys());
+}
+
+/**
+ * Get the number of jobs currently being processed
+ */
+export function getActiveJobCount(): number {
+  return activeJobs.size;
+}
+
+/**
+ * Get how long the oldest in-flight job has been running, in seconds
+ */
+export function getOldestActiveJobAge(): number {
+  if (activeJobStartTimes.size === 0) return 0;
+  return (Date.now() - Math.min(...activeJobStartTimes.values())) / 1000;
 }
 
 /**
@@ -46,38 +133,92 @@ export function incrementJobsProcessed(): void {
 
 /**
  * Set worker configuration
+ * The worker loop reads the same object, so runtime updates apply on its next pass
  */
 export function setWorkerConfig(config: Partial<WorkerConfig>): void {
   workerConfig = config;
 }
 
+/**
+ * Change tunable settings on a running worker
+ */
+export function updateWorkerConfig(changes: RuntimeConfigUpdate): void {
+  Object.assign(workerConfig, changes);
+  if (changes.batchSize !== undefined) {
+    batchSizeOverride = changes.batchSize;
+  }
+}
+
+/**
+ * Get the batch size set at runtime, if any
+ * It replaces the file-size based batch sizing for jobs started afterwards
+ */
+export function getBatchSizeOverride(): number | null {
+  return batchSizeOverride;
+}
+
+/**
+ * Register the worker's periodic cleanup so it can be run on demand
+ */
+export function registerCleanupHandler(handler: () => Promise<void>): void {
+  cleanupHandler = handler;
+}
+
+/**
+ * Run the registered cleanup now
+ */
+export async function runCleanup(): Promise<void> {
+  if (!cleanupHandler) {
+    throw new Error('No cleanup handler registered');
+  }
+  await cleanupHandler();
+}
+
+/**
+ * Get worker configuration
+ */
+export function getWorkerConfig(): Partial<WorkerConfig> {
+  return workerConfig;
+}
+
 /**
  * Get worker health status
  */
 export function getWorkerHealth(): {
   status: string;
   isShuttingDown: boolean;
+  isPaused: boolean;
+  isDraining: boolean;
   currentJob: any;
+  activeJobs: any[];
   jobsProcessed: number;
   uptime: number;
   memoryUsage: NodeJS.MemoryUsage;
   config: any;
 } {
+  const jobs = Array.from(activeJobs.values()).map((job) => ({
+    id: job.id,
+    type: job.type,
+    uploadId: job.upload_id,
+    startedAt: job.updated_at
+  }));
+
   return {
     status: isRunning ? 'running' : 'stopped',
     isShuttingDown,
-    currentJob: currentJob ? {
-      id: currentJob.id,
-      uploadId: currentJob.upload_id,
-      startedAt: currentJob.updated_at
-    } : null,
+    isPaused,
+    isDraining,
+    // Oldest in-flight job, kept for consumers that expect a single job
+    currentJob: jobs[0] || null,
+    activeJobs: jobs,
     jobsProcessed,
     uptime: process.uptime(),
     memoryUsage: process.memoryUsage(),
     config: {
       pollInterval: workerConfig.pollInterval,
       batchSize: workerConfig.batchSize,
-      maxRetries: workerConfig.maxRetries
+      maxRetries: workerConfig.maxRetries,
+      jobConcurrency: workerConfig.jobConcurrency
     }
   };
 }
@@ -88,7 +229,13 @@ export function getWorkerHealth(): {
 export function resetWorkerState(): void {
   isRunning = false;
   isShuttingDown = false;
-  currentJob = null;
+  isPaused = false;
+  isDraining = false;
+  activeJobs.clear();
+  activeJobStartTimes.clear();
+  activeJobControllers.clear();
+  batchSizeOverride = null;
+  cleanupHandler = null;
   jobsProcessed = 0;
   startTime = 0;
 }
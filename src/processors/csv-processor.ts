@@ -1,12 +1,60 @@
-import { Job, JobResult, ValidationError } from "../types";
+import { Readable } from "stream";
+import {
+  FileFormat,
+  FileImportResult,
+  Job,
+  JobCheckpoint,
+  JobContext,
+  JobHandler,
+  JobResult,
+  MergeMode,
+  NetworkDiffSummary,
+  RejectionSummary,
+  Upload,
+  ValidationError,
+} from "../types";
 import {
   updateJobProgress,
+  mergeJobResult,
+  markJobCancelled,
   updateUploadStatus,
   getUpload,
   markJobFailed,
+  isJobCancelRequested,
+  enqueueJob,
+  MERGE_MODES,
 } from "../utils/database";
 import { downloadChunksAsStream, cleanupUploadChunks } from "../utils/storage";
-import { validateAndProcessCSVStream } from "../utils/validation";
+import {
+  buildChunkManifest,
+  verifyChunkContent,
+} from "../utils/chunk-integrity";
+import {
+  validateAndProcessCSVStream,
+  StreamProcessingResult,
+} from "../utils/validation";
+import { getRetryPolicy } from "./registry";
+import { getBatchSizeOverride } from "../monitoring/worker-state";
+import { diffAgainstPreviousUpload } from "../utils/network-diff";
+import {
+  createRejectionReport,
+  finalizeRejectionReport,
+  discardRejectionReport,
+} from "../utils/rejection-report";
+import {
+  isZipArchive,
+  peekStream,
+  readZipMembers,
+} from "../utils/zip-archive";
+import {
+  XLSX_SNIFF_LENGTH,
+  isXlsxUpload,
+  xlsxToCsvStream,
+} from "../utils/xlsx";
+import {
+  getExportSchemaForFile,
+  getRegisteredExportFileNames,
+} from "../schemas/registry";
 
 const BATCH_SIZE = parseInt(process.env.WORKER_BATCH_SIZE || "1000");
 const HEARTBEAT_INTERVAL = parseInt(
@@ -15,24 +63,371 @@ const HEARTBEAT_INTERVAL = parseInt(
 const CONCURRENT_BATCHES = parseInt(
   process.env.WORKER_CONCURRENT_BATCHES || "5"
 );
+const USER_CANCEL_REASON = "Cancelled by user";
+const ROLLBACK_CANCELLED_UPLOADS =
+  process.env.ROLLBACK_CANCELLED_UPLOADS === "true";
+const DEFAULT_MERGE_MODE = (process.env.DEFAULT_MERGE_MODE ||
+  "skip") as MergeMode;
+
+type RecordCounts = Pick<
+  JobResult,
+  | "processedRecords"
+  | "duplicateRecords"
+  | "updatedRecords"
+  | "unchangedRecords"
+  | "skippedRecords"
+  | "totalRecords"
+>;
+
+// Shared by every file of an upload; a ZIP upload imports several
+interface ImportRun {
+  job: Job;
+  upload: Upload;
+  mergeMode: MergeMode;
+  signal: AbortSignal;
+  urlHashes: Set<string>;
+  onProgress: (progress: number) => Promise<void>;
+}
+
+// What an upload's import produced, from one CSV or every CSV in a ZIP
+interface ImportOutcome {
+  counts: RecordCounts;
+  details: Pick<
+    JobResult,
+    "schema" | "format" | "encoding" | "rejections" | "files"
+  >;
+  cancelled: boolean;
+  rejectedRows: number;
+  // Records inserted by this upload, which undo can roll back
+  recordsInserted: number;
+  // A connections export was read in full, so the network diff applies
+  importedConnections: boolean;
+}
+
+/**
+ * Resolve an upload's merge mode, falling back to DEFAULT_MERGE_MODE
+ */
+function getMergeMode(mergeMode: MergeMode | null | undefined): MergeMode {
+  const resolved = mergeMode || DEFAULT_MERGE_MODE;
+  if (!MERGE_MODES.includes(resolved)) {
+    throw new ValidationError(
+      `Unsupported merge mode: ${resolved} (expected one of: ${MERGE_MODES.join(", ")})`
+    );
+  }
+  return resolved;
+}
+
+/**
+ * Map stream processing counts onto the job result fields
+ */
+function toRecordCounts(result: StreamProcessingResult): RecordCounts {
+  return {
+    processedRecords: result.processed,
+    duplicateRecords: result.duplicates,
+    updatedRecords: result.updated,
+    unchangedRecords: result.unchanged,
+    skippedRecords: result.skipped,
+    totalRecords: result.total,
+  };
+}
+
+/**
+ * Add up the record counts of the files imported from a ZIP
+ */
+function sumRecordCounts(files: FileImportResult[]): RecordCounts {
+  return files.reduce<RecordCounts>(
+    (sum, file) => ({
+      processedRecords: sum.processedRecords + file.processedRecords,
+      duplicateRecords: sum.duplicateRecords + file.duplicateRecords,
+      updatedRecords: sum.updatedRecords + file.updatedRecords,
+      unchangedRecords: sum.unchangedRecords + file.unchangedRecords,
+      skippedRecords: sum.skippedRecords + file.skippedRecords,
+      totalRecords: sum.totalRecords + file.totalRecords,
+    }),
+    {
+      processedRecords: 0,
+      duplicateRecords: 0,
+      updatedRecords: 0,
+      unchangedRecords: 0,
+      skippedRecords: 0,
+      totalRecords: 0,
+    }
+  );
+}
+
+/**
+ * Validate and import one CSV file with its own rejection report
+ */
+async function importFile(
+  stream: Readable,
+  fileName: string | null,
+  fileSizeBytes: number,
+  resumeFrom: JobCheckpoint | undefined,
+  run: ImportRun,
+  onCheckpoint: (checkpoint: JobCheckpoint) => Promise<void>
+): Promise<{ result: StreamProcessingResult; rejections: RejectionSummary }> {
+  const rejectionReport = createRejectionReport(run.job.upload_id, fileName);
+  const batchSizeOverride = getBatchSizeOverride();
+
+  try {
+    const result = await validateAndProcessCSVStream(
+      stream,
+      run.upload.user_id,
+      run.job.upload_id,
+      BATCH_SIZE,
+      CONCURRENT_BATCHES,
+      run.onProgress,
+      fileSizeBytes, // Pass file size for Phase 1 optimizations
+      {
+        rejectionReport,
+        signal: run.signal,
+        mergeMode: run.mergeMode,
+        urlHashes: run.urlHashes,
+        ...(resumeFrom && { resumeFrom }),
+        ...(batchSizeOverride && { batchSize: batchSizeOverride }),
+        onCheckpoint,
+      }
+    );
+
+    const rejections = await finalizeRejectionReport(rejectionReport);
+    return { result, rejections };
+  } catch (error) {
+    await discardRejectionReport(rejectionReport);
+    throw error;
+  }
+}
+
+/**
+ * Import an upload that is a single export
+ * Workbooks arrive already converted to CSV, so only their format differs
+ */
+async function importCSVUpload(
+  stream: Readable,
+  run: ImportRun,
+  sourceFormat: FileFormat | null = null
+): Promise<ImportOutcome> {
+  // A retried job picks up after the last batch an earlier attempt committed
+  const resumeFrom: JobCheckpoint | undefined = run.job.result?.checkpoint;
+
+  const { result, rejections } = await importFile(
+    stream,
+    null,
+    run.upload.bytes_total,
+    resumeFrom,
+    run,
+    async (checkpoint) => {
+      await mergeJobResult(run.job.id, { checkpoint });
+    }
+  );
+
+  return {
+    counts: toRecordCounts(result),
+    details: {
+      schema: result.schema,
+      format: sourceFormat ?? result.format,
+      // Text converted from a workbook is UTF-8 whatever the workbook held
+      encoding: sourceFormat ? null : result.encoding,
+      rejections,
+    },
+    cancelled: result.cancelled,
+    rejectedRows: rejections.totalRejected,
+    recordsInserted: result.processed,
+    importedConnections: result.schema === "connections",
+  };
+}
+
+/**
+ * Find where a ZIP member picks up when the job is retried
+ * Files an earlier attempt finished are read again without inserting
+ * anything, so their url hashes and rejection reports are rebuilt
+ */
+function getFileResumePoint(
+  fileName: string,
+  finished: FileImportResult | undefined,
+  previous: { checkpoint?: JobCheckpoint; checkpointFile?: string }
+): JobCheckpoint | undefined {
+  if (finished) {
+    return {
+      rowOffset: Number.MAX_SAFE_INTEGER,
+      batchNumber: 0,
+      processedRecords: finished.processedRecords,
+      duplicateRecords: finished.duplicateRecords,
+      updatedRecords: finished.updatedRecords,
+      unchangedRecords: finished.unchangedRecords,
+      skippedRecords: finished.skippedRecords,
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  return previous.checkpointFile === fileName
+    ? previous.checkpoint
+    : undefined;
+}
+
+/**
+ * Import every supported export in a LinkedIn data-archive ZIP
+ * Members are streamed out of the download one at a time and matched to a
+ * schema by file name. A member that is not a valid export is recorded in
+ * its file result without failing the rest of the archive
+ */
+async function importArchiveUpload(
+  stream: Readable,
+  run: ImportRun
+): Promise<ImportOutcome> {
+  const previous = run.job.result || {};
+  const finished = new Map<string, FileImportResult>(
+    ((previous.files || []) as FileImportResult[]).map((file) => [
+      file.fileName,
+      file,
+    ])
+  );
+  const files: FileImportResult[] = [];
+  const seen = new Set<string>();
+  let cancelled = false;
+
+  const recordFile = async (file: FileImportResult): Promise<void> => {
+    files.push(file);
+    await mergeJobResult(run.job.id, { files });
+  };
+
+  const summary = await readZipMembers(
+    stream,
+    (name) => {
+      // Resume bookkeeping goes by file name, so only the first copy counts
+      if (!getExportSchemaForFile(name) || seen.has(name)) return false;
+      seen.add(name);
+      return true;
+    },
+    async (member) => {
+      if (run.signal.aborted) {
+        cancelled = true;
+        return false;
+      }
+
+      const done = finished.get(member.name);
+      if (done?.error) {
+        // Failed the same way last time; reading it again changes nothing
+        await recordFile(done);
+        return true;
+      }
+
+      console.log(`📂 Importing ${member.path} from the archive`);
+      const resumeFrom = getFileResumePoint(member.name, done, previous);
+
+      try {
+        const { result, rejections } = await importFile(
+          member.stream,
+          member.name,
+          member.declaredSize ?? run.upload.bytes_total,
+          resumeFrom,
+          run,
+          async (checkpoint) => {
+            await mergeJobResult(run.job.id, {
+              checkpoint,
+              checkpointFile: member.name,
+              files,
+            });
+          }
+        );
+
+        await recordFile({
+          fileName: member.name,
+          schema: result.schema,
+          format: result.format,
+          encoding: result.encoding,
+          ...toRecordCounts(result),
+          rejections,
+          ...(result.cancelled && { cancelled: true }),
+        });
+        cancelled = result.cancelled;
+        return !result.cancelled;
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error;
+
+        console.warn(`⚠️ Skipping ${member.name}: ${error.message}`);
+        await recordFile({
+          fileName: member.name,
+          schema: null,
+          format: null,
+          encoding: null,
+          ...sumRecordCounts([]),
+          error: error.message,
+        });
+        return true;
+      }
+    }
+  );
+
+  console.log(
+    `🗜️ Read ${summary.entryCount} archive entries (${summary.inflatedBytes} bytes inflated) and imported ${files.length} files`
+  );
+
+  if (!cancelled && files.length === 0) {
+    const expected = getRegisteredExportFileNames().join(", ");
+    throw new ValidationError(
+      `ZIP archive contains no supported LinkedIn export (expected one of: ${expected})`
+    );
+  }
+  if (!cancelled && files.every((file) => file.error)) {
+    throw new ValidationError(
+      `No file in the ZIP archive could be imported: ${files
+        .map((file) => `${file.fileName}: ${file.error}`)
+        .join("; ")}`
+    );
+  }
+
+  const connections = files.find(
+    (file) => file.schema === "connections" && !file.error
+  );
+
+  const counts = sumRecordCounts(files);
+  return {
+    counts,
+    details: { files },
+    cancelled,
+    rejectedRows: files.reduce(
+      (sum, file) => sum + (file.rejections?.totalRejected || 0),
+      0
+    ),
+    recordsInserted: counts.processedRecords,
+    importedConnections: !!connections,
+  };
+}
 
 /**
  * Process a CSV upload job
  * This is the main processing function adapted from existing upload-connections.js
+ * The upload is either one CSV export or LinkedIn's full data-archive ZIP
  */
-export async function processCSVJob(job: Job): Promise<JobResult> {
+export async function processCSVJob(
+  job: Job,
+  context: JobContext
+): Promise<JobResult> {
   const startTime = Date.now();
   let heartbeatTimer: NodeJS.Timeout | null = null;
 
+  // Aborted by an operator (admin API) or by the user (cancel_requested_at)
+  const cancellation = new AbortController();
+  const forwardAdminCancel = () => cancellation.abort(context.signal.reason);
+  context.signal.addEventListener("abort", forwardAdminCancel, { once: true });
+  if (job.cancel_requested_at) {
+    cancellation.abort(USER_CANCEL_REASON);
+  }
+
   try {
     console.log(
       `🚀 Starting CSV processing for job ${job.id} (upload ${job.upload_id})`
     );
 
-    // Start heartbeat to show job is active
+    // Start heartbeat to show job is active; it also picks up cancel requests
     heartbeatTimer = setInterval(async () => {
       try {
         await updateJobProgress(job.id, null, null, null, true);
+
+        if (!cancellation.signal.aborted && (await isJobCancelRequested(job.id))) {
+          console.log(`🛑 Cancellation requested for job ${job.id}`);
+          cancellation.abort(USER_CANCEL_REASON);
+        }
       } catch (error) {
         console.warn("Heartbeat update failed:", error);
       }
@@ -50,30 +445,80 @@ export async function processCSVJob(job: Job): Promise<JobResult> {
     // Update upload status to processing
     await updateUploadStatus(job.upload_id, "processing", null, null);
 
-    // Download and combine chunks from storage
+    // Check the recorded chunks are all there before anything is parsed
+    const chunks = await buildChunkManifest(upload);
+    console.log(
+      `🔐 Verified chunk manifest: ${chunks.length} chunks, ${upload.bytes_total} bytes`
+    );
+
+    // Download and combine chunks from storage, checking each one's size
+    // and checksum before any of it reaches the parser
     console.log("📥 Downloading CSV chunks from storage...");
-    const csvStream = await downloadChunksAsStream(
+    const download = await downloadChunksAsStream(
       job.upload_id,
-      upload.filename
+      chunks,
+      (chunk, data) => verifyChunkContent(chunk, data, job.upload_id)
+    );
+    const { head, stream: payload } = await peekStream(
+      download,
+      XLSX_SNIFF_LENGTH
     );
 
-    // Validate and process rows with duplicate checking
-    console.log("✅ Validating and processing rows...");
-    const processingResult = await validateAndProcessCSVStream(
-      csvStream,
-      upload.user_id,
-      BATCH_SIZE,
-      CONCURRENT_BATCHES,
-      async (progress) => {
+    const mergeMode = getMergeMode(upload.merge_mode);
+    const urlHashes = new Set<string>();
+    const run: ImportRun = {
+      job,
+      upload,
+      mergeMode,
+      signal: cancellation.signal,
+      urlHashes,
+      onProgress: async (progress) => {
         await updateJobProgress(job.id, "running", progress, null, true);
       },
-      upload.bytes_total // Pass file size for Phase 1 optimizations
-    );
+    };
+
+    // Validate and process rows with duplicate checking
+    let outcome: ImportOutcome;
+    if (isXlsxUpload(upload.filename, head)) {
+      console.log("📗 Upload is an Excel workbook, converting it to CSV...");
+      outcome = await importCSVUpload(xlsxToCsvStream(payload), run, "xlsx");
+    } else if (isZipArchive(head)) {
+      console.log("🗜️ Upload is a ZIP archive, importing its exports...");
+      outcome = await importArchiveUpload(payload, run);
+    } else {
+      console.log("✅ Validating and processing rows...");
+      outcome = await importCSVUpload(payload, run);
+    }
+
+    if (outcome.cancelled) {
+      return await cancelImport(
+        job,
+        String(cancellation.signal.reason ?? USER_CANCEL_REASON),
+        outcome
+      );
+    }
 
+    const { counts } = outcome;
+    const imported = outcome.details.files
+      ? `${outcome.details.files.length} files`
+      : [outcome.details.schema, outcome.details.format, outcome.details.encoding]
+          .filter(Boolean)
+          .join(" ");
     console.log(
-      `📊 Final results: ${processingResult.processed} inserted, ${processingResult.duplicates} duplicates, ${processingResult.total} total valid rows`
+      `📊 Final results (${imported}, ${mergeMode}): ${counts.processedRecords} inserted, ${counts.updatedRecords} updated, ${counts.unchangedRecords} unchanged, ${counts.skippedRecords} skipped, ${counts.totalRecords} total valid rows, ${outcome.rejectedRows} rejected`
     );
 
+    // Compare with the owner's previous export to find network churn
+    let networkDiff: NetworkDiffSummary | null = null;
+    if (outcome.importedConnections) {
+      try {
+        networkDiff = await diffAgainstPreviousUpload(upload, urlHashes);
+      } catch (error) {
+        // The import itself succeeded; the diff is a best-effort extra
+        console.warn("⚠️ Failed to diff against previous upload:", error);
+      }
+    }
+
     // Final progress update
     await updateJobProgress(job.id, "running", 100, null, true);
 
@@ -86,12 +531,21 @@ export async function processCSVJob(job: Job): Promise<JobResult> {
     );
 
     // Mark job as succeeded
-    await updateJobProgress(job.id, "succeeded", 100, null, true, {
-      processedRecords: processingResult.processed,
-      duplicateRecords: processingResult.duplicates,
-      totalRecords: processingResult.total,
-      success: true,
-    });
+    // A finished job has nothing left to resume
+    await mergeJobResult(
+      job.id,
+      {
+        ...counts,
+        ...outcome.details,
+        mergeMode,
+        networkDiff,
+        success: true,
+        checkpoint: undefined,
+        checkpointFile: undefined,
+      },
+      "succeeded",
+      100
+    );
 
     // Clean up storage chunks
     console.log("🧹 Cleaning up storage chunks...");
@@ -102,9 +556,9 @@ export async function processCSVJob(job: Job): Promise<JobResult> {
 
     return {
       success: true,
-      processedRecords: processingResult.processed,
-      duplicateRecords: processingResult.duplicates,
-      totalRecords: processingResult.total,
+      ...counts,
+      ...outcome.details,
+      networkDiff,
     };
   } catch (error) {
     const duration = Date.now() - startTime;
@@ -113,19 +567,29 @@ export async function processCSVJob(job: Job): Promise<JobResult> {
     const errorMessage = error instanceof Error ? error.message : String(error);
 
     try {
-      // Mark upload as failed
-      await updateUploadStatus(job.upload_id, "failed", null, errorMessage);
-
       // Mark job as failed with retry logic
-      const failureResult = await markJobFailed(job.id, errorMessage);
+      const failureResult = await markJobFailed(
+        job.id,
+        error,
+        getRetryPolicy(job.type)
+      );
+
+      // The upload only fails with its job; until then it waits for the
+      // retry, which keeps undo away from rows the retry will write again
+      await updateUploadStatus(
+        job.upload_id,
+        failureResult.willRetry ? "queued" : "failed",
+        null,
+        failureResult.willRetry ? null : errorMessage
+      );
 
       if (failureResult.willRetry) {
         console.log(
-          `🔄 Job will be retried (attempt ${failureResult.attempts})`
+          `🔄 Job will be retried at ${failureResult.nextAttemptAt} (attempt ${failureResult.attempts}, ${failureResult.errorCode})`
         );
       } else {
         console.log(
-          `💀 Job failed permanently after ${failureResult.attempts} attempts`
+          `💀 Job moved to dead-letter queue after ${failureResult.attempts} attempts (${failureResult.errorCategory} ${failureResult.errorCode})`
         );
       }
     } catch (updateError) {
@@ -139,6 +603,9 @@ export async function processCSVJob(job: Job): Promise<JobResult> {
       success: false,
       processedRecords: 0,
       duplicateRecords: 0,
+      updatedRecords: 0,
+      unchangedRecords: 0,
+      skippedRecords: 0,
       totalRecords: 0,
       error: errorMessage,
     };
@@ -147,9 +614,50 @@ export async function processCSVJob(job: Job): Promise<JobResult> {
     if (heartbeatTimer) {
       clearInterval(heartbeatTimer);
     }
+    context.signal.removeEventListener("abort", forwardAdminCancel);
   }
 }
 
+/**
+ * Record a cancelled job and its upload with the counts reached so far
+ * Chunks are removed since a cancelled upload is never resumed, and with
+ * ROLLBACK_CANCELLED_UPLOADS the rows it already inserted are undone
+ */
+async function cancelImport(
+  job: Job,
+  reason: string,
+  outcome: ImportOutcome
+): Promise<JobResult> {
+  await updateUploadStatus(job.upload_id, "cancelled", null, reason);
+  await markJobCancelled(job.id, reason, {
+    ...outcome.counts,
+    ...outcome.details,
+  });
+
+  console.log("🧹 Cleaning up storage chunks...");
+  await cleanupUploadChunks(job.upload_id);
+
+  // Remove the rows inserted before the cancellation took effect
+  if (ROLLBACK_CANCELLED_UPLOADS && outcome.recordsInserted > 0) {
+    try {
+      const undoJob = await enqueueJob(job.upload_id, "undo_upload");
+      console.log(
+        `⏪ Queued undo job ${undoJob.id} to roll back ${outcome.recordsInserted} inserted rows`
+      );
+    } catch (error) {
+      console.warn("⚠️ Failed to queue rollback of cancelled upload:", error);
+    }
+  }
+
+  return {
+    success: false,
+    ...outcome.counts,
+    ...outcome.details,
+    cancelled: true,
+    error: reason,
+  };
+}
+
 /**
  * Validate job before processing
  */
@@ -173,6 +681,10 @@ export function validateJob(job: Job): void {
  * Get processing statistics
  */
 export function getProcessingStats(result: JobResult): string {
+  if (result.cancelled) {
+    return `Processing cancelled after ${result.processedRecords} inserted, ${result.duplicateRecords} duplicates (${result.error})`;
+  }
+
   if (!result.success) {
     return `Processing failed: ${result.error}`;
   }
@@ -183,5 +695,18 @@ export function getProcessingStats(result: JobResult): string {
       ? Math.round((total / result.totalRecords) * 100)
       : 0;
 
-  return `Processing completed: ${result.processedRecords} inserted, ${result.duplicateRecords} duplicates, ${result.totalRecords} total (${successRate}% success rate)`;
+  const imported = result.files
+    ? `${result.files.length} files from ZIP`
+    : `${result.schema} ${result.format}`;
+  return `Processing completed (${imported}): ${result.processedRecords} inserted, ${result.updatedRecords} updated, ${result.unchangedRecords} unchanged, ${result.skippedRecords} skipped, ${result.totalRecords} total (${successRate}% success rate)`;
 }
+
+/**
+ * Job handler for CSV uploads
+ */
+export const csvProcessHandler: JobHandler<JobResult> = {
+  type: "csv_process",
+  validate: validateJob,
+  process: processCSVJob,
+  describeResult: getProcessingStats,
+};
@@ -0,0 +1,13 @@
+import { registerJobHandler } from "./registry";
+import { csvProcessHandler } from "./csv-processor";
+import { undoUploadHandler } from "./undo-upload-processor";
+import { rehashUrlsHandler } from "./rehash-urls-processor";
+
+/**
+ * Register the job handlers that ship with the worker
+ */
+export function registerBuiltInJobHandlers(): void {
+  registerJobHandler(csvProcessHandler);
+  registerJobHandler(undoUploadHandler);
+  registerJobHandler(rehashUrlsHandler);
+}
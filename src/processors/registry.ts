@@ -0,0 +1,61 @@
+import { JobHandler, JobType, RetryPolicy } from "../types";
+import { getWorkerConfig } from "../monitoring/worker-state";
+import { DEFAULT_JOB_RETRY_POLICY } from "../utils/database";
+
+// Registered handlers keyed by job type, in registration order
+const handlers = new Map<JobType, JobHandler<any>>();
+
+/**
+ * Register a handler for a job type
+ */
+export function registerJobHandler<TResult>(
+  handler: JobHandler<TResult>
+): void {
+  if (handlers.has(handler.type)) {
+    throw new Error(`Job handler already registered for type: ${handler.type}`);
+  }
+
+  handlers.set(handler.type, handler);
+  console.log(`🧩 Registered job handler: ${handler.type}`);
+}
+
+/**
+ * Get the handler for a job type, if one is registered
+ */
+export function getJobHandler(type: JobType): JobHandler<any> | undefined {
+  return handlers.get(type);
+}
+
+/**
+ * Get all job types the worker can process
+ */
+export function getRegisteredJobTypes(): JobType[] {
+  return Array.from(handlers.keys());
+}
+
+/**
+ * Resolve the retry policy for a job type
+ * Handler overrides win over the worker configuration, which wins over defaults
+ */
+export function getRetryPolicy(type: JobType): RetryPolicy {
+  const config = getWorkerConfig();
+
+  return {
+    ...DEFAULT_JOB_RETRY_POLICY,
+    ...(config.maxRetries !== undefined && { maxRetries: config.maxRetries }),
+    ...(config.retryBaseDelay !== undefined && {
+      baseDelayMs: config.retryBaseDelay,
+    }),
+    ...(config.retryMaxDelay !== undefined && {
+      maxDelayMs: config.retryMaxDelay,
+    }),
+    ...handlers.get(type)?.retryPolicy,
+  };
+}
+
+/**
+ * Remove all registered handlers (for testing)
+ */
+export function resetJobHandlers(): void {
+  handlers.clear();
+}
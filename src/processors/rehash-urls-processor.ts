@@ -0,0 +1,313 @@
+import {
+  Job,
+  JobContext,
+  JobHandler,
+  JobCancelledError,
+  ProcessedConnection,
+  RehashUrlsResult,
+  ValidationError,
+} from "../types";
+import {
+  updateJobProgress,
+  mergeJobResult,
+  getUpload,
+  getLatestCompletedUpload,
+  markJobFailed,
+  listOwnerConnections,
+  updateConnection,
+  deleteConnectionsByHash,
+} from "../utils/database";
+import { normalizeAndHashUrl } from "../utils/validation";
+import { remapUrlHashSnapshot } from "../utils/network-diff";
+import { getRetryPolicy } from "./registry";
+
+const HEARTBEAT_INTERVAL = parseInt(
+  process.env.WORKER_HEARTBEAT_INTERVAL || "30000"
+);
+const REHASH_PAGE_SIZE = parseInt(process.env.REHASH_PAGE_SIZE || "1000");
+
+// Fields a merged duplicate may fill in on the connection that is kept
+const MERGEABLE_FIELDS = [
+  "Name",
+  "Email",
+  "Company",
+  "Title",
+  "Connected On",
+] as const;
+
+// Rows that share a canonical URL, and therefore a url_hash
+interface RehashGroup {
+  profileUrl: string;
+  urlHash: string;
+  rows: ProcessedConnection[];
+}
+
+/**
+ * Group an owner's connections by their canonical url_hash, keeping only
+ * groups that need a change: a stale hash or URL, or duplicates to merge
+ */
+function planRehash(connections: ProcessedConnection[]): RehashGroup[] {
+  const groups = new Map<string, RehashGroup>();
+  const hashCache = new Map<string, string>();
+
+  for (const connection of connections) {
+    const { normalizedUrl, hash } = normalizeAndHashUrl(
+      connection["Profile URL"],
+      hashCache
+    );
+
+    const group = groups.get(hash);
+    if (group) {
+      group.rows.push(connection);
+    } else {
+      groups.set(hash, {
+        profileUrl: normalizedUrl,
+        urlHash: hash,
+        rows: [connection],
+      });
+    }
+  }
+
+  return Array.from(groups.values()).filter(
+    (group) =>
+      group.rows.length > 1 ||
+      group.rows[0].url_hash !== group.urlHash ||
+      group.rows[0]["Profile URL"] !== group.profileUrl
+  );
+}
+
+/**
+ * Apply one group: fold duplicates into a single connection, then move it
+ * to the canonical url_hash
+ * Each step leaves the table consistent, so a retry re-plans from whatever
+ * state an interrupted attempt left behind
+ */
+async function applyRehashGroup(
+  owner: string,
+  group: RehashGroup
+): Promise<number> {
+  // Prefer the row already at the canonical hash so it keeps its identity
+  const keeper =
+    group.rows.find((row) => row.url_hash === group.urlHash) ?? group.rows[0];
+  const duplicates = group.rows.filter((row) => row !== keeper);
+
+  if (duplicates.length > 0) {
+    const filled: Partial<ProcessedConnection> = {};
+    for (const field of MERGEABLE_FIELDS) {
+      if (keeper[field]) continue;
+
+      const value = duplicates.find((row) => row[field])?.[field];
+      if (value) filled[field] = value;
+    }
+
+    if (Object.keys(filled).length > 0) {
+      await updateConnection(owner, keeper.url_hash, filled);
+    }
+    await deleteConnectionsByHash(
+      owner,
+      duplicates.map((row) => row.url_hash)
+    );
+  }
+
+  if (
+    keeper.url_hash !== group.urlHash ||
+    keeper["Profile URL"] !== group.profileUrl
+  ) {
+    await updateConnection(owner, keeper.url_hash, {
+      url_hash: group.urlHash,
+      "Profile URL": group.profileUrl,
+    });
+  }
+
+  return duplicates.length;
+}
+
+/**
+ * Re-hash an owner's connections with canonical profile URLs
+ * One-off migration for connections imported before URLs were canonicalized.
+ * The job's upload only identifies the owner; the upload itself is untouched
+ */
+export async function processRehashUrlsJob(
+  job: Job,
+  context: JobContext
+): Promise<RehashUrlsResult> {
+  const startTime = Date.now();
+  let heartbeatTimer: NodeJS.Timeout | null = null;
+  let scannedRecords = 0;
+  let rehashedRecords = 0;
+  let mergedRecords = 0;
+
+  const throwIfCancelled = () => {
+    if (context.signal.aborted) {
+      throw new JobCancelledError(
+        `Rehash cancelled: ${context.signal.reason ?? "no reason given"}`,
+        job.id,
+        job.upload_id
+      );
+    }
+  };
+
+  try {
+    console.log(
+      `🔗 Starting URL rehash for job ${job.id} (upload ${job.upload_id})`
+    );
+
+    heartbeatTimer = setInterval(async () => {
+      try {
+        await updateJobProgress(job.id, null, null, null, true);
+      } catch (error) {
+        console.warn("Heartbeat update failed:", error);
+      }
+    }, HEARTBEAT_INTERVAL);
+
+    await updateJobProgress(job.id, "running", 0, null, true);
+
+    const upload = await getUpload(job.upload_id);
+    const owner = upload.user_id;
+
+    // Read everything first; a LinkedIn network is at most ~30k rows
+    const connections: ProcessedConnection[] = [];
+    let page: ProcessedConnection[];
+    do {
+      throwIfCancelled();
+      const lastHash = connections[connections.length - 1]?.url_hash ?? null;
+      page = await listOwnerConnections(owner, lastHash, REHASH_PAGE_SIZE);
+      connections.push(...page);
+    } while (page.length === REHASH_PAGE_SIZE);
+    scannedRecords = connections.length;
+
+    const groups = planRehash(connections);
+    console.log(
+      `🔗 ${groups.length} of ${scannedRecords} connections for owner ${owner} need re-hashing`
+    );
+
+    const hashMap = new Map<string, string>();
+    for (let i = 0; i < groups.length; i++) {
+      throwIfCancelled();
+
+      const group = groups[i];
+      mergedRecords += await applyRehashGroup(owner, group);
+      rehashedRecords++;
+      for (const row of group.rows) {
+        hashMap.set(row.url_hash, group.urlHash);
+      }
+
+      if ((i + 1) % REHASH_PAGE_SIZE === 0) {
+        await updateJobProgress(
+          job.id,
+          null,
+          Math.round(((i + 1) / groups.length) * 100),
+          null,
+          true
+        );
+      }
+    }
+
+    // Keep the next network diff from reporting every re-hashed row as new
+    if (hashMap.size > 0) {
+      try {
+        const latestUpload = await getLatestCompletedUpload(owner);
+        if (latestUpload && (await remapUrlHashSnapshot(latestUpload.id, hashMap))) {
+          console.log(`🔀 Re-hashed snapshot of upload ${latestUpload.id}`);
+        }
+      } catch (error) {
+        console.warn("⚠️ Failed to re-hash the latest upload snapshot:", error);
+      }
+    }
+
+    const result: RehashUrlsResult = {
+      success: true,
+      scannedRecords,
+      rehashedRecords,
+      mergedRecords,
+    };
+    await mergeJobResult(job.id, result, "succeeded", 100);
+
+    console.log(
+      `✅ Rehashed ${rehashedRecords} connections (${mergedRecords} duplicates merged) in ${Date.now() - startTime}ms`
+    );
+
+    return result;
+  } catch (error) {
+    // runJob records the cancellation; it is not a failure to retry
+    if (error instanceof JobCancelledError) throw error;
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(
+      `❌ URL rehash failed after ${Date.now() - startTime}ms (${rehashedRecords} connections rehashed):`,
+      error
+    );
+
+    try {
+      // A retry re-plans from the table as it is now
+      const failureResult = await markJobFailed(
+        job.id,
+        error,
+        getRetryPolicy(job.type)
+      );
+
+      if (failureResult.willRetry) {
+        console.log(
+          `🔄 URL rehash will be retried at ${failureResult.nextAttemptAt} (attempt ${failureResult.attempts}, ${failureResult.errorCode})`
+        );
+      } else {
+        console.log(
+          `💀 URL rehash moved to dead-letter queue after ${failureResult.attempts} attempts (${failureResult.errorCategory} ${failureResult.errorCode})`
+        );
+      }
+    } catch (updateError) {
+      console.error("Failed to update job status after error:", updateError);
+    }
+
+    return {
+      success: false,
+      scannedRecords,
+      rehashedRecords,
+      mergedRecords,
+      error: errorMessage,
+    };
+  } finally {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+    }
+  }
+}
+
+/**
+ * Validate a rehash job before processing
+ */
+export function validateRehashUrlsJob(job: Job): void {
+  if (!job.id || !job.upload_id) {
+    throw new ValidationError("Job missing required fields: id, upload_id");
+  }
+
+  if (job.type !== "rehash_urls") {
+    throw new ValidationError(`Unsupported job type: ${job.type}`);
+  }
+
+  if (job.status !== "running") {
+    throw new ValidationError(
+      `Job status should be 'running', got: ${job.status}`
+    );
+  }
+}
+
+/**
+ * Summarise a rehash result for logging
+ */
+export function describeRehashUrlsResult(result: RehashUrlsResult): string {
+  if (!result.success) {
+    return `URL rehash failed after ${result.rehashedRecords} connections: ${result.error}`;
+  }
+  return `URL rehash completed: ${result.rehashedRecords} of ${result.scannedRecords} connections rehashed, ${result.mergedRecords} duplicates merged`;
+}
+
+/**
+ * Job handler for the canonical URL migration
+ */
+export const rehashUrlsHandler: JobHandler<RehashUrlsResult> = {
+  type: "rehash_urls",
+  validate: validateRehashUrlsJob,
+  process: processRehashUrlsJob,
+  describeResult: describeRehashUrlsResult,
+};
@@ -0,0 +1,198 @@
+import {
+  ExportSchemaId,
+  Job,
+  JobContext,
+  JobHandler,
+  JobCancelledError,
+  UndoUploadResult,
+  UploadStatus,
+  ValidationError,
+} from "../types";
+import {
+  updateJobProgress,
+  mergeJobResult,
+  updateUploadStatus,
+  getUpload,
+  markJobFailed,
+  deleteUploadRecords,
+} from "../utils/database";
+import { getRegisteredExportSchemas } from "../schemas/registry";
+import { getRetryPolicy } from "./registry";
+
+const HEARTBEAT_INTERVAL = parseInt(
+  process.env.WORKER_HEARTBEAT_INTERVAL || "30000"
+);
+const UNDO_PAGE_SIZE = parseInt(process.env.UNDO_PAGE_SIZE || "1000");
+
+// An import still in progress would keep inserting rows behind the undo
+const UNDOABLE_UPLOAD_STATUSES: UploadStatus[] = [
+  "completed",
+  "failed",
+  "cancelled",
+  "reverted",
+];
+
+/**
+ * Revert an upload's import
+ * Deletes exactly the records the upload inserted into every export's table,
+ * page by page, and marks the upload reverted. Rows it only matched as
+ * duplicates are left alone
+ */
+export async function processUndoUploadJob(
+  job: Job,
+  context: JobContext
+): Promise<UndoUploadResult> {
+  const startTime = Date.now();
+  let heartbeatTimer: NodeJS.Timeout | null = null;
+  let deletedRecords = 0;
+  const deletedBySchema: Partial<Record<ExportSchemaId, number>> = {};
+
+  try {
+    console.log(
+      `⏪ Starting undo for job ${job.id} (upload ${job.upload_id})`
+    );
+
+    heartbeatTimer = setInterval(async () => {
+      try {
+        await updateJobProgress(job.id, null, null, null, true);
+      } catch (error) {
+        console.warn("Heartbeat update failed:", error);
+      }
+    }, HEARTBEAT_INTERVAL);
+
+    await updateJobProgress(job.id, "running", 0, null, true);
+
+    const upload = await getUpload(job.upload_id);
+    if (!UNDOABLE_UPLOAD_STATUSES.includes(upload.status)) {
+      throw new ValidationError(
+        `Upload ${upload.id} is ${upload.status}; wait for its import to finish before undoing it`,
+        job.id,
+        job.upload_id
+      );
+    }
+
+    // A ZIP upload can have written to every export's table. Deleting by
+    // page keeps each statement small and the heartbeat current
+    for (const schema of getRegisteredExportSchemas()) {
+      let schemaDeleted = 0;
+      let deleted: number;
+      do {
+        if (context.signal.aborted) {
+          throw new JobCancelledError(
+            `Undo cancelled: ${context.signal.reason ?? "no reason given"}`,
+            job.id,
+            job.upload_id
+          );
+        }
+
+        deleted = await deleteUploadRecords(
+          schema,
+          job.upload_id,
+          upload.user_id,
+          UNDO_PAGE_SIZE
+        );
+        schemaDeleted += deleted;
+        deletedRecords += deleted;
+
+        if (deleted > 0) {
+          console.log(
+            `🗑️ Deleted ${schemaDeleted} ${schema.id} records for upload ${job.upload_id}`
+          );
+        }
+      } while (deleted > 0);
+
+      if (schemaDeleted > 0) {
+        deletedBySchema[schema.id] = schemaDeleted;
+      }
+    }
+
+    await updateUploadStatus(job.upload_id, "reverted", null, null);
+    await mergeJobResult(
+      job.id,
+      { deletedRecords, deletedBySchema, success: true },
+      "succeeded",
+      100
+    );
+
+    console.log(
+      `✅ Upload ${job.upload_id} reverted in ${Date.now() - startTime}ms`
+    );
+
+    return { success: true, deletedRecords, deletedBySchema };
+  } catch (error) {
+    // runJob records the cancellation; it is not a failure to retry
+    if (error instanceof JobCancelledError) throw error;
+
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(
+      `❌ Undo failed after ${Date.now() - startTime}ms (${deletedRecords} records deleted):`,
+      error
+    );
+
+    try {
+      // Deleting is idempotent, so a retry simply carries on where this stopped
+      const failureResult = await markJobFailed(
+        job.id,
+        error,
+        getRetryPolicy(job.type)
+      );
+
+      if (failureResult.willRetry) {
+        console.log(
+          `🔄 Undo will be retried at ${failureResult.nextAttemptAt} (attempt ${failureResult.attempts}, ${failureResult.errorCode})`
+        );
+      } else {
+        console.log(
+          `💀 Undo moved to dead-letter queue after ${failureResult.attempts} attempts (${failureResult.errorCategory} ${failureResult.errorCode})`
+        );
+      }
+    } catch (updateError) {
+      console.error("Failed to update job status after error:", updateError);
+    }
+
+    return { success: false, deletedRecords, error: errorMessage };
+  } finally {
+    if (heartbeatTimer) {
+      clearInterval(heartbeatTimer);
+    }
+  }
+}
+
+/**
+ * Validate an undo job before processing
+ */
+export function validateUndoJob(job: Job): void {
+  if (!job.id || !job.upload_id) {
+    throw new ValidationError("Job missing required fields: id, upload_id");
+  }
+
+  if (job.type !== "undo_upload") {
+    throw new ValidationError(`Unsupported job type: ${job.type}`);
+  }
+
+  if (job.status !== "running") {
+    throw new ValidationError(
+      `Job status should be 'running', got: ${job.status}`
+    );
+  }
+}
+
+/**
+ * Summarise an undo result for logging
+ */
+export function describeUndoResult(result: UndoUploadResult): string {
+  if (!result.success) {
+    return `Undo failed after deleting ${result.deletedRecords} records: ${result.error}`;
+  }
+  return `Undo completed: ${result.deletedRecords} records deleted`;
+}
+
+/**
+ * Job handler for reverting an upload's import
+ */
+export const undoUploadHandler: JobHandler<UndoUploadResult> = {
+  type: "undo_upload",
+  validate: validateUndoJob,
+  process: processUndoUploadJob,
+  describeResult: describeUndoResult,
+};
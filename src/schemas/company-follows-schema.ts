@@ -0,0 +1,42 @@
+import { ExportSchema, ProcessedCompanyFollow } from "../types";
+import {
+  createRecordHash,
+  getRequiredFieldsRejection,
+  getRowValue,
+} from "../utils/validation";
+
+const REQUIRED_FIELDS = ["Organization"];
+
+/**
+ * Format a Company Follows.csv row for process_company_follows_batch
+ */
+export function formatCompanyFollowRow(
+  row: Record<string, any>,
+  owner: string,
+  uploadId: string
+): ProcessedCompanyFollow {
+  const value = (key: string): string | null =>
+    String(getRowValue(row, key) ?? "").trim() || null;
+
+  return {
+    Organization: value("Organization")!,
+    "Followed On": value("Followed On"),
+    Owner: owner.trim(),
+    record_hash: createRecordHash([value("Organization")]),
+    upload_id: uploadId,
+  };
+}
+
+/**
+ * Company Follows.csv: companies the owner follows
+ */
+export const companyFollowsSchema: ExportSchema<ProcessedCompanyFollow> = {
+  id: "company_follows",
+  fileName: "Company Follows.csv",
+  requiredHeaders: ["Organization", "Followed On"],
+  rpcName: "process_company_follows_batch",
+  table: "company_follows",
+  recordKey: "record_hash",
+  validate: (row) => getRequiredFieldsRejection(row, REQUIRED_FIELDS),
+  format: formatCompanyFollowRow,
+};
@@ -0,0 +1,25 @@
+import { ExportSchema, ProcessedConnection } from "../types";
+import {
+  formatRowForSupabase,
+  getRowRejectionReason,
+  validateCSVRow,
+} from "../utils/validation";
+import { CONNECTIONS_TABLE } from "../utils/database";
+
+/**
+ * Connections.csv: the people in the owner's network
+ */
+export const connectionsSchema: ExportSchema<ProcessedConnection> = {
+  id: "connections",
+  fileName: "Connections.csv",
+  requiredHeaders: ["First Name", "Last Name", "URL"],
+  rpcName: "process_connections_batch",
+  table: CONNECTIONS_TABLE,
+  recordKey: "url_hash",
+  dateField: "Connected On",
+  validate: (row) =>
+    validateCSVRow(row)
+      ? null
+      : getRowRejectionReason(row) ?? "MALFORMED_COLUMNS",
+  format: formatRowForSupabase,
+};
@@ -0,0 +1,18 @@
+import { registerExportSchema } from "./registry";
+import { connectionsSchema } from "./connections-schema";
+import { invitationsSchema } from "./invitations-schema";
+import { messagesSchema } from "./messages-schema";
+import { positionsSchema } from "./positions-schema";
+import { companyFollowsSchema } from "./company-follows-schema";
+
+/**
+ * Register the LinkedIn exports that ship with the worker
+ * Connections comes first so it wins detection for its own header row
+ */
+export function registerBuiltInExportSchemas(): void {
+  registerExportSchema(connectionsSchema);
+  registerExportSchema(invitationsSchema);
+  registerExportSchema(messagesSchema);
+  registerExportSchema(positionsSchema);
+  registerExportSchema(companyFollowsSchema);
+}
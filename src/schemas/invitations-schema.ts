@@ -0,0 +1,62 @@
+import { ExportSchema, ProcessedInvitation } from "../types";
+import {
+  createRecordHash,
+  getRequiredFieldsRejection,
+  getRowValue,
+} from "../utils/validation";
+import { canonicalizeLinkedInUrl } from "../utils/linkedin-url";
+
+const REQUIRED_FIELDS = ["From", "To", "Sent At", "Direction"];
+
+/**
+ * Format an Invitations.csv row for process_invitations_batch
+ * "Profile URL" is the other person: the invitee for outgoing invitations,
+ * the inviter for incoming ones
+ */
+export function formatInvitationRow(
+  row: Record<string, any>,
+  owner: string,
+  uploadId: string
+): ProcessedInvitation {
+  const value = (key: string): string =>
+    String(getRowValue(row, key) ?? "").trim();
+
+  const direction = value("Direction").toUpperCase();
+  const counterpartUrl =
+    direction === "OUTGOING"
+      ? value("inviteeProfileUrl")
+      : value("inviterProfileUrl");
+  const profileUrl = canonicalizeLinkedInUrl(counterpartUrl);
+  const counterpartName =
+    direction === "OUTGOING" ? value("To") : value("From");
+
+  return {
+    From: value("From"),
+    To: value("To"),
+    "Sent At": value("Sent At"),
+    Message: value("Message") || null,
+    Direction: direction,
+    "Profile URL": profileUrl,
+    Owner: owner.trim(),
+    record_hash: createRecordHash([
+      direction,
+      profileUrl ?? counterpartName,
+      value("Sent At"),
+    ]),
+    upload_id: uploadId,
+  };
+}
+
+/**
+ * Invitations.csv: connection requests the owner sent and received
+ */
+export const invitationsSchema: ExportSchema<ProcessedInvitation> = {
+  id: "invitations",
+  fileName: "Invitations.csv",
+  requiredHeaders: REQUIRED_FIELDS,
+  rpcName: "process_invitations_batch",
+  table: "invitations",
+  recordKey: "record_hash",
+  validate: (row) => getRequiredFieldsRejection(row, REQUIRED_FIELDS),
+  format: formatInvitationRow,
+};
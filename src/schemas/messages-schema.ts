@@ -0,0 +1,60 @@
+import { ExportSchema, ProcessedMessage } from "../types";
+import {
+  createRecordHash,
+  getRequiredFieldsRejection,
+  getRowValue,
+} from "../utils/validation";
+import { canonicalizeLinkedInUrl } from "../utils/linkedin-url";
+
+// Content can be empty for messages that only carried an attachment
+const REQUIRED_FIELDS = ["Conversation ID", "From", "Date"];
+
+/**
+ * Format a messages.csv row for process_messages_batch
+ */
+export function formatMessageRow(
+  row: Record<string, any>,
+  owner: string,
+  uploadId: string
+): ProcessedMessage {
+  const value = (key: string): string | null =>
+    String(getRowValue(row, key) ?? "").trim() || null;
+
+  const senderUrl = value("Sender Profile URL");
+  const normalizedSenderUrl = canonicalizeLinkedInUrl(senderUrl) ?? senderUrl;
+
+  return {
+    "Conversation ID": value("Conversation ID")!,
+    "Conversation Title": value("Conversation Title"),
+    From: value("From"),
+    "Sender Profile URL": normalizedSenderUrl,
+    To: value("To"),
+    "Recipient Profile URLs": value("Recipient Profile URLs"),
+    Date: value("Date")!,
+    Subject: value("Subject"),
+    Content: value("Content"),
+    Folder: value("Folder"),
+    Owner: owner.trim(),
+    record_hash: createRecordHash([
+      value("Conversation ID"),
+      value("Date"),
+      normalizedSenderUrl ?? value("From"),
+      value("Content"),
+    ]),
+    upload_id: uploadId,
+  };
+}
+
+/**
+ * messages.csv: the owner's LinkedIn message history
+ */
+export const messagesSchema: ExportSchema<ProcessedMessage> = {
+  id: "messages",
+  fileName: "messages.csv",
+  requiredHeaders: ["Conversation ID", "From", "Date", "Content"],
+  rpcName: "process_messages_batch",
+  table: "messages",
+  recordKey: "record_hash",
+  validate: (row) => getRequiredFieldsRejection(row, REQUIRED_FIELDS),
+  format: formatMessageRow,
+};
@@ -0,0 +1,50 @@
+import { ExportSchema, ProcessedPosition } from "../types";
+import {
+  createRecordHash,
+  getRequiredFieldsRejection,
+  getRowValue,
+} from "../utils/validation";
+
+const REQUIRED_FIELDS = ["Company Name", "Title"];
+
+/**
+ * Format a Positions.csv row for process_positions_batch
+ */
+export function formatPositionRow(
+  row: Record<string, any>,
+  owner: string,
+  uploadId: string
+): ProcessedPosition {
+  const value = (key: string): string | null =>
+    String(getRowValue(row, key) ?? "").trim() || null;
+
+  return {
+    "Company Name": value("Company Name")!,
+    Title: value("Title")!,
+    Description: value("Description"),
+    Location: value("Location"),
+    "Started On": value("Started On"),
+    "Finished On": value("Finished On"),
+    Owner: owner.trim(),
+    record_hash: createRecordHash([
+      value("Company Name"),
+      value("Title"),
+      value("Started On"),
+    ]),
+    upload_id: uploadId,
+  };
+}
+
+/**
+ * Positions.csv: the owner's own work history
+ */
+export const positionsSchema: ExportSchema<ProcessedPosition> = {
+  id: "positions",
+  fileName: "Positions.csv",
+  requiredHeaders: ["Company Name", "Title", "Started On"],
+  rpcName: "process_positions_batch",
+  table: "positions",
+  recordKey: "record_hash",
+  validate: (row) => getRequiredFieldsRejection(row, REQUIRED_FIELDS),
+  format: formatPositionRow,
+};
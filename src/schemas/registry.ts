@@ -0,0 +1,104 @@
+import { ExportRecord, ExportSchema, ExportSchemaId } from "../types";
+
+// Registered schemas keyed by id, in registration order
+const schemas = new Map<ExportSchemaId, ExportSchema<any>>();
+
+/**
+ * Register the validator, formatter and RPC for one LinkedIn export
+ */
+export function registerExportSchema<TRecord extends ExportRecord>(
+  schema: ExportSchema<TRecord>
+): void {
+  if (schemas.has(schema.id)) {
+    throw new Error(`Export schema already registered: ${schema.id}`);
+  }
+
+  schemas.set(schema.id, schema);
+  console.log(`🧩 Registered export schema: ${schema.id}`);
+}
+
+/**
+ * Get the schema for an export, if one is registered
+ */
+export function getExportSchema(
+  id: ExportSchemaId
+): ExportSchema<any> | undefined {
+  return schemas.get(id);
+}
+
+/**
+ * Get all exports the worker can import
+ */
+export function getRegisteredExportSchemaIds(): ExportSchemaId[] {
+  return Array.from(schemas.keys());
+}
+
+/**
+ * Get all registered schemas, in registration order
+ */
+export function getRegisteredExportSchemas(): ExportSchema<any>[] {
+  return Array.from(schemas.values());
+}
+
+/**
+ * List the data archive file names of all registered schemas
+ */
+export function getRegisteredExportFileNames(): string[] {
+  return Array.from(schemas.values()).map((schema) => schema.fileName);
+}
+
+/**
+ * Get the schema for a file in LinkedIn's data archive, matched by name
+ */
+export function getExportSchemaForFile(
+  fileName: string
+): ExportSchema<any> | undefined {
+  const name = fileName.trim().toLowerCase();
+  return Array.from(schemas.values()).find(
+    (schema) => schema.fileName.toLowerCase() === name
+  );
+}
+
+/**
+ * Split a header line into lowercased cells without quotes or a BOM
+ */
+function parseHeaderCells(line: string, delimiter: string): Set<string> {
+  return new Set(
+    line
+      .replace(/^\uFEFF/, "")
+      .split(delimiter)
+      .map((cell) =>
+        cell.replace(/["']/g, "").trim().replace(/\s+/g, " ").toLowerCase()
+      )
+  );
+}
+
+/**
+ * Work out which export a header line belongs to
+ * Schemas are tried in registration order; returns null for a non-header line
+ */
+export function detectExportSchema(
+  line: string,
+  delimiter: string = ","
+): ExportSchema<any> | null {
+  const cells = parseHeaderCells(line, delimiter);
+
+  for (const schema of schemas.values()) {
+    if (
+      schema.requiredHeaders.every((header) =>
+        cells.has(header.toLowerCase())
+      )
+    ) {
+      return schema;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Remove all registered schemas (for testing)
+ */
+export function resetExportSchemas(): void {
+  schemas.clear();
+}
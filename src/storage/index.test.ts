@@ -0,0 +1,93 @@
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import { StorageDriver } from "../types";
+import { downloadReportContent, uploadReportContent } from "../utils/storage";
+import { getStorageDriver, setStorageDriver } from ".";
+
+/**
+ * A storage driver that keeps objects in a map
+ */
+function memoryDriver(objects: Map<string, Buffer>): StorageDriver {
+  return {
+    name: "local",
+    list: async () => [],
+    download: async (path) => {
+      const body = objects.get(path);
+      return body ? Readable.from([body]) : null;
+    },
+    upload: async (path, body) => {
+      objects.set(path, body as Buffer);
+    },
+    remove: async (paths) => {
+      paths.forEach((path) => objects.delete(path));
+    },
+    getBucketInfo: async () => ({ name: "memory", public: false }),
+  };
+}
+
+describe("storage driver selection", () => {
+  const env = { ...process.env };
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "storage-driver-"));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    setStorageDriver(null);
+  });
+
+  it("uses the driver passed to setStorageDriver", async () => {
+    const objects = new Map<string, Buffer>();
+    const driver = memoryDriver(objects);
+    setStorageDriver(driver);
+
+    expect(getStorageDriver()).toBe(driver);
+
+    await uploadReportContent("reports/a.json", "{}", "application/json");
+    expect(objects.get("reports/a.json")?.toString()).toBe("{}");
+    expect(await downloadReportContent("reports/a.json")).toBe("{}");
+    expect(await downloadReportContent("reports/missing.json")).toBeNull();
+  });
+
+  it("creates the configured driver again once the replacement is cleared", () => {
+    process.env.STORAGE_DRIVER = "local";
+    process.env.LOCAL_STORAGE_PATH = root;
+    setStorageDriver(memoryDriver(new Map()));
+    setStorageDriver(null);
+
+    const driver = getStorageDriver();
+
+    expect(driver.name).toBe("local");
+    expect(getStorageDriver()).toBe(driver);
+  });
+
+  it("refuses an unknown driver name", () => {
+    process.env.STORAGE_DRIVER = "ftp";
+
+    expect(() => getStorageDriver()).toThrow(
+      "Unknown STORAGE_DRIVER: ftp (expected one of supabase, local, s3)"
+    );
+  });
+});
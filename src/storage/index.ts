@@ -0,0 +1,64 @@
+import { StorageDriver, StorageDriverName } from "../types";
+import { createSupabaseStorageDriver } from "./supabase-driver";
+import { createLocalStorageDriver } from "./local-driver";
+import { createS3StorageDriver } from "./s3-driver";
+
+const STORAGE_DRIVERS: StorageDriverName[] = ["supabase", "local", "s3"];
+
+export const STORAGE_BUCKET = process.env.STORAGE_BUCKET || "csv-uploads";
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Create the driver named by STORAGE_DRIVER
+ */
+function createStorageDriver(): StorageDriver {
+  const name = (process.env.STORAGE_DRIVER || "supabase") as StorageDriverName;
+
+  switch (name) {
+    case "supabase":
+      return createSupabaseStorageDriver(STORAGE_BUCKET);
+    case "local":
+      return createLocalStorageDriver(
+        process.env.LOCAL_STORAGE_PATH || "./storage",
+        STORAGE_BUCKET
+      );
+    case "s3":
+      return createS3StorageDriver({
+        bucket: STORAGE_BUCKET,
+        region: process.env.S3_REGION || "us-east-1",
+        ...(process.env.S3_ENDPOINT && { endpoint: process.env.S3_ENDPOINT }),
+        ...(process.env.S3_ACCESS_KEY_ID && {
+          accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        }),
+        ...(process.env.S3_SECRET_ACCESS_KEY && {
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        }),
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      });
+    default:
+      throw new Error(
+        `Unknown STORAGE_DRIVER: ${name} (expected one of ${STORAGE_DRIVERS.join(", ")})`
+      );
+  }
+}
+
+/**
+ * Get the configured storage driver, creating it on first use
+ */
+export function getStorageDriver(): StorageDriver {
+  if (!driver) {
+    driver = createStorageDriver();
+    console.log(
+      `🗄️ Using ${driver.name} storage driver for bucket ${STORAGE_BUCKET}`
+    );
+  }
+  return driver;
+}
+
+/**
+ * Use a different storage driver (for testing)
+ */
+export function setStorageDriver(replacement: StorageDriver | null): void {
+  driver = replacement;
+}
@@ -0,0 +1,92 @@
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import { afterEach, beforeEach, describe, expect, it } from "@jest/globals";
+import { StorageDriver } from "../types";
+import { createLocalStorageDriver } from "./local-driver";
+
+async function readText(stream: Readable): Promise<string> {
+  const parts: Buffer[] = [];
+  for await (const part of stream) parts.push(part as Buffer);
+  return Buffer.concat(parts).toString("utf8");
+}
+
+describe("createLocalStorageDriver", () => {
+  let root: string;
+  let driver: StorageDriver;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "local-driver-"));
+    driver = createLocalStorageDriver(root, "csv-uploads");
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("stores objects under <root>/<bucket>/<path>", async () => {
+    await driver.upload("upload-1/f.csv.part0", Buffer.from("abc"), {
+      contentType: "text/csv",
+      contentLength: 3,
+    });
+
+    expect(
+      await readFile(
+        join(root, "csv-uploads", "upload-1", "f.csv.part0"),
+        "utf8"
+      )
+    ).toBe("abc");
+  });
+
+  it("lists, downloads and removes what it stored", async () => {
+    const options = { contentType: "text/csv", contentLength: 3 };
+    await driver.upload(
+      "upload-1/f.csv.part1",
+      Readable.from(["def"]),
+      options
+    );
+    await driver.upload("upload-1/f.csv.part0", Buffer.from("abc"), options);
+    await driver.upload("upload-1/nested/x.txt", Buffer.from("x"), options);
+
+    expect(await driver.list("upload-1")).toEqual([
+      { name: "f.csv.part0", size: 3 },
+      { name: "f.csv.part1", size: 3 },
+    ]);
+    expect(
+      await readText((await driver.download("upload-1/f.csv.part1"))!)
+    ).toBe("def");
+
+    await driver.remove(["upload-1/f.csv.part0", "upload-1/missing"]);
+
+    expect(await driver.list("upload-1")).toEqual([
+      { name: "f.csv.part1", size: 3 },
+    ]);
+  });
+
+  it("treats missing objects and folders as absent", async () => {
+    expect(await driver.list("upload-2")).toEqual([]);
+    expect(await driver.download("upload-2/f.csv.part0")).toBeNull();
+  });
+
+  it("refuses paths outside the bucket", async () => {
+    await expect(driver.download("../secret")).rejects.toThrow(
+      "Storage path is outside the bucket: ../secret"
+    );
+  });
+
+  it("reports a missing bucket folder", async () => {
+    await expect(driver.getBucketInfo()).rejects.toThrow(
+      "Storage bucket 'csv-uploads' not found"
+    );
+
+    await driver.upload("upload-1/a", Buffer.from("a"), {
+      contentType: "text/plain",
+      contentLength: 1,
+    });
+    expect(await driver.getBucketInfo()).toEqual({
+      name: "csv-uploads",
+      public: false,
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { createReadStream, createWriteStream } from "fs";
+import { mkdir, readdir, rm, stat, writeFile } from "fs/promises";
+import { dirname, isAbsolute, join, relative, resolve } from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import { StorageDriver, StoredObject, StorageError } from "../types";
+
+/**
+ * Whether a filesystem error means the file or folder is not there
+ */
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === "ENOENT";
+}
+
+/**
+ * A bucket kept as a folder on disk, for running the worker without a
+ * storage service. Objects live at <root>/<bucket>/<path>
+ */
+export function createLocalStorageDriver(
+  root: string,
+  bucket: string
+): StorageDriver {
+  const bucketDir = resolve(root, bucket);
+
+  // Keeps paths like "../x" from reaching outside the bucket folder
+  const toFilePath = (path: string): string => {
+    const filePath = resolve(bucketDir, path);
+    const inside = relative(bucketDir, filePath);
+    if (!inside || inside.startsWith("..") || isAbsolute(inside)) {
+      throw new StorageError(`Storage path is outside the bucket: ${path}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: "local",
+
+    async list(folder) {
+      const dir = toFilePath(folder);
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch (error) {
+        if (isNotFound(error)) return [];
+        throw error;
+      }
+
+      const objects: StoredObject[] = [];
+      for (const entry of entries) {
+        if (!entry.isFile()) continue;
+        const { size } = await stat(join(dir, entry.name));
+        objects.push({ name: entry.name, size });
+      }
+
+      return objects.sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async download(path) {
+      const filePath = toFilePath(path);
+      try {
+        const info = await stat(filePath);
+        if (!info.isFile()) return null;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+
+      return createReadStream(filePath);
+    },
+
+    async upload(path, body) {
+      const filePath = toFilePath(path);
+      await mkdir(dirname(filePath), { recursive: true });
+
+      if (body instanceof Readable) {
+        await pipeline(body, createWriteStream(filePath));
+      } else {
+        await writeFile(filePath, body);
+      }
+    },
+
+    async remove(paths) {
+      for (const path of paths) {
+        await rm(toFilePath(path), { force: true });
+      }
+    },
+
+    async getBucketInfo() {
+      try {
+        const info = await stat(bucketDir);
+        if (!info.isDirectory()) throw new Error("not a directory");
+      } catch {
+        throw new StorageError(
+          `Storage bucket '${bucket}' not found at ${bucketDir}`
+        );
+      }
+
+      return { name: bucket, public: false };
+    },
+  };
+}
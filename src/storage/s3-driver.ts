@@ -0,0 +1,153 @@
+import { Readable } from "stream";
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadBucketCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ClientConfig,
+} from "@aws-sdk/client-s3";
+import { StorageDriver, StoredObject, StorageError } from "../types";
+
+// DeleteObjects takes at most this many keys per request
+const DELETE_BATCH_SIZE = 1000;
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // MinIO and most self-hosted services need bucket names in the path
+  forcePathStyle: boolean;
+}
+
+/**
+ * Whether an S3 error means the object is not there
+ */
+function isNotFound(error: unknown): boolean {
+  const { name, $metadata } = error as {
+    name?: string;
+    $metadata?: { httpStatusCode?: number };
+  };
+  return name === "NoSuchKey" || $metadata?.httpStatusCode === 404;
+}
+
+/**
+ * Amazon S3 or an S3-compatible service such as MinIO
+ * Credentials fall back to the AWS SDK's usual chain when not configured
+ */
+export function createS3StorageDriver(config: S3StorageConfig): StorageDriver {
+  const clientConfig: S3ClientConfig = {
+    region: config.region,
+    forcePathStyle: config.forcePathStyle,
+  };
+  if (config.endpoint) {
+    clientConfig.endpoint = config.endpoint;
+  }
+  if (config.accessKeyId && config.secretAccessKey) {
+    clientConfig.credentials = {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    };
+  }
+
+  const client = new S3Client(clientConfig);
+  const { bucket } = config;
+
+  return {
+    name: "s3",
+
+    async list(folder) {
+      const prefix = `${folder.replace(/\/+$/, "")}/`;
+      const objects: StoredObject[] = [];
+      let continuationToken: string | undefined;
+
+      do {
+        const page = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: prefix,
+            Delimiter: "/",
+            ContinuationToken: continuationToken,
+          })
+        );
+
+        for (const object of page.Contents ?? []) {
+          if (!object.Key) continue;
+          objects.push({
+            name: object.Key.slice(prefix.length),
+            size: object.Size ?? 0,
+          });
+        }
+
+        continuationToken = page.IsTruncated
+          ? page.NextContinuationToken
+          : undefined;
+      } while (continuationToken);
+
+      return objects;
+    },
+
+    async download(path) {
+      try {
+        const { Body } = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: path })
+        );
+        if (!Body) return null;
+        return Body as Readable;
+      } catch (error) {
+        if (isNotFound(error)) return null;
+        throw error;
+      }
+    },
+
+    async upload(path, body, { contentType, contentLength }) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: path,
+          Body: body,
+          ContentType: contentType,
+          ContentLength: contentLength,
+        })
+      );
+    },
+
+    async remove(paths) {
+      for (let i = 0; i < paths.length; i += DELETE_BATCH_SIZE) {
+        const { Errors } = await client.send(
+          new DeleteObjectsCommand({
+            Bucket: bucket,
+            Delete: {
+              Objects: paths
+                .slice(i, i + DELETE_BATCH_SIZE)
+                .map((path) => ({ Key: path })),
+              Quiet: true,
+            },
+          })
+        );
+
+        if (Errors && Errors.length > 0) {
+          throw new StorageError(
+            `Failed to delete ${Errors.length} objects, first ${Errors[0]!.Key}: ${Errors[0]!.Message}`
+          );
+        }
+      }
+    },
+
+    async getBucketInfo() {
+      try {
+        await client.send(new HeadBucketCommand({ Bucket: bucket }));
+      } catch (error) {
+        if (isNotFound(error)) {
+          throw new StorageError(`Storage bucket '${bucket}' not found`);
+        }
+        throw error;
+      }
+
+      return { name: bucket, public: false };
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { Readable } from "stream";
+import { supabase } from "../config/supabase";
+import { StorageDriver, StoredObject, StorageError } from "../types";
+
+// Objects requested per list call; Supabase returns 100 by default
+const LIST_PAGE_SIZE = 1000;
+
+/**
+ * Supabase Storage, through the service-role client the worker already uses
+ */
+export function createSupabaseStorageDriver(bucket: string): StorageDriver {
+  const storage = () => supabase.storage.from(bucket);
+
+  return {
+    name: "supabase",
+
+    async list(folder) {
+      const objects: StoredObject[] = [];
+
+      for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+        const { data, error } = await storage().list(folder, {
+          limit: LIST_PAGE_SIZE,
+          offset,
+          sortBy: { column: "name", order: "asc" },
+        });
+        if (error) throw new StorageError(error.message);
+
+        // Folders come back without an id
+        for (const file of data ?? []) {
+          if (file.id === null) continue;
+          objects.push({
+            name: file.name,
+            size: file.metadata?.size || 0,
+            ...(file.metadata?.checksum && {
+              checksum: file.metadata.checksum,
+            }),
+          });
+        }
+
+        if (!data || data.length < LIST_PAGE_SIZE) return objects;
+      }
+    },
+
+    async download(path) {
+      const { data, error } = await storage().download(path);
+
+      if (error) {
+        const status = (error as { status?: number }).status;
+        if (status === 404 || /not found/i.test(error.message)) {
+          return null;
+        }
+        throw new StorageError(error.message);
+      }
+
+      // The client buffers the whole object, so it is streamed from memory
+      return Readable.from(Buffer.from(await data.arrayBuffer()));
+    },
+
+    async upload(path, body, { contentType }) {
+      const { error } = await storage().upload(path, body, {
+        contentType,
+        upsert: true,
+        ...(body instanceof Readable && { duplex: "half" }),
+      });
+      if (error) throw new StorageError(error.message);
+    },
+
+    async remove(paths) {
+      if (paths.length === 0) return;
+      const { error } = await storage().remove(paths);
+      if (error) throw new StorageError(error.message);
+    },
+
+    async getBucketInfo() {
+      const { data: buckets, error } = await supabase.storage.listBuckets();
+      if (error) {
+        throw new StorageError(`Failed to list buckets: ${error.message}`);
+      }
+
+      const info = buckets.find((b) => b.name === bucket);
+      if (!info) {
+        throw new StorageError(`Storage bucket '${bucket}' not found`);
+      }
+
+      return {
+        name: info.name,
+        public: info.public,
+        ...(info.file_size_limit != null && {
+          file_size_limit: info.file_size_limit,
+        }),
+      };
+    },
+  };
+}
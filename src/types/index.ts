@@ -1,3 +1,5 @@
+import { Readable } from "stream";
+
 // Database types matching the bulletproof schema
 export type UploadStatus =
   | "pending"
@@ -5,14 +7,24 @@ export type UploadStatus =
   | "queued"
   | "processing"
   | "completed"
-  | "failed";
+  | "failed"
+  | "cancelled"
+  | "reverted";
 export type JobStatus =
   | "queued"
   | "running"
   | "succeeded"
   | "failed"
-  | "retrying";
-export type JobType = "csv_process";
+  | "retrying"
+  | "scheduled"
+  | "dead_letter"
+  | "cancelled";
+export type JobType = "csv_process" | "undo_upload" | "rehash_urls";
+// How an import treats connections that already exist
+// skip: leave them as they are
+// overwrite: replace fields with every non-null value from the import
+// fill_empty: only set fields that are currently empty
+export type MergeMode = "skip" | "overwrite" | "fill_empty";
 
 export interface Upload {
   id: string;
@@ -22,6 +34,7 @@ export interface Upload {
   bytes_uploaded: number;
   status: UploadStatus;
   storage_path?: string;
+  merge_mode?: MergeMode | null;
   created_at: string;
   updated_at: string;
   error?: string;
@@ -34,8 +47,12 @@ export interface Job {
   status: JobStatus;
   attempts: number;
   last_heartbeat_at?: string;
+  next_attempt_at?: string | null;
   progress: number;
   error?: string;
+  error_code?: string | null;
+  error_category?: ErrorCategory | null;
+  cancel_requested_at?: string | null; // set by the app when the user cancels
   result?: any;
   created_at: string;
   updated_at: string;
@@ -70,11 +87,84 @@ export type ProcessedConnection = {
   Title: string | null;
   "Connected On": string | null;
   url_hash: string;
+  upload_id: string; // the import that inserted the row
+};
+
+// LinkedIn data archive files the worker can import
+export type ExportSchemaId =
+  | "connections"
+  | "invitations"
+  | "messages"
+  | "positions"
+  | "company_follows";
+
+// Layout of an uploaded file; delimited text is named after its delimiter
+export type FileFormat = "csv" | "tsv" | "semicolon" | "pipe" | "xlsx";
+
+// Character encodings an upload is transcoded from
+export type TextEncoding = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+// Day/month order of a file's numeric dates
+export type DateOrder = "DMY" | "MDY";
+
+// A row formatted for its schema's RPC
+export type ExportRecord = Record<string, string | null>;
+
+export type ProcessedInvitation = {
+  From: string;
+  To: string;
+  "Sent At": string;
+  Message: string | null;
+  Direction: string; // INCOMING or OUTGOING
+  "Profile URL": string | null; // the other person's canonical profile URL
+  Owner: string;
+  record_hash: string;
+  upload_id: string;
+};
+
+export type ProcessedMessage = {
+  "Conversation ID": string;
+  "Conversation Title": string | null;
+  From: string | null;
+  "Sender Profile URL": string | null;
+  To: string | null;
+  "Recipient Profile URLs": string | null;
+  Date: string;
+  Subject: string | null;
+  Content: string | null;
+  Folder: string | null;
+  Owner: string;
+  record_hash: string;
+  upload_id: string;
+};
+
+export type ProcessedPosition = {
+  "Company Name": string;
+  Title: string;
+  Description: string | null;
+  Location: string | null;
+  "Started On": string | null;
+  "Finished On": string | null;
+  Owner: string;
+  record_hash: string;
+  upload_id: string;
+};
+
+export type ProcessedCompanyFollow = {
+  Organization: string;
+  "Followed On": string | null;
+  Owner: string;
+  record_hash: string;
+  upload_id: string;
 };
 
 export interface BatchProcessResult {
   inserted_count: number;
-  duplicate_count: number;
+  duplicate_count: number; // rows matching an existing connection
+  // Breakdown of duplicate_count by what the merge mode did with them
+  updated_count: number;
+  unchanged_count: number;
+  skipped_count: number;
 }
 
 // Worker configuration
@@ -85,6 +175,77 @@ export interface WorkerConfig {
   heartbeatInterval: number;
   storageBucket: string;
   chunkSize: number;
+  jobConcurrency: number;
+  staleJobThreshold: number;
+  reaperInterval: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+}
+
+// Row rejection types
+export type RowRejectionReason =
+  | "EMPTY_ROW"
+  | "MISSING_FIRST_NAME"
+  | "MISSING_LAST_NAME"
+  | "MISSING_URL"
+  | "INVALID_URL"
+  | "MALFORMED_COLUMNS"
+  | "MISSING_REQUIRED_FIELD"
+  | "INVALID_CONNECTED_ON"; // flagged only: imported with the raw value
+
+export interface RowRejection {
+  line: number;
+  reason: RowRejectionReason;
+  row: Record<string, any> | string[];
+}
+
+export interface RejectionSummary {
+  totalRejected: number;
+  totalFlagged: number; // imported, but with a value that needs attention
+  byReason: Partial<Record<RowRejectionReason, number>>;
+  sample: RowRejection[];
+  reportPath: string | null;
+}
+
+// Connections gained and lost since the owner's previous completed upload
+export interface NetworkDiffSummary {
+  previousUploadId: string | null; // null when there is nothing to compare with
+  addedCount: number;
+  removedCount: number;
+  unchangedCount: number;
+  reportPath: string | null; // full url_hash lists, when a comparison was made
+}
+
+// Durable resume point recorded in the job result after each committed batch
+export interface JobCheckpoint {
+  rowOffset: number; // data rows (after the header) fully handled
+  batchNumber: number;
+  processedRecords: number;
+  duplicateRecords: number;
+  updatedRecords: number;
+  unchangedRecords: number;
+  skippedRecords: number;
+  // Order the file's numeric dates were read in, so a resume reads the rest
+  // the same way; absent for exports without dates
+  dateOrder?: DateOrder;
+  updatedAt: string;
+}
+
+// One failed attempt, appended to the job result by markJobFailed
+export interface JobAttempt {
+  attempt: number;
+  error: string;
+  errorCode: string;
+  errorCategory: ErrorCategory;
+  failedAt: string;
+}
+
+// Kept in the job result once retries are exhausted
+export interface DeadLetterInfo {
+  reason: string;
+  attempts: number;
+  deadLetteredAt: string;
+  upload: Pick<Upload, "id" | "user_id" | "filename" | "bytes_total"> | null;
 }
 
 // Job processing result
@@ -92,10 +253,106 @@ export interface JobResult {
   success: boolean;
   processedRecords: number;
   duplicateRecords: number;
+  updatedRecords: number;
+  unchangedRecords: number;
+  skippedRecords: number;
   totalRecords: number;
+  rejections?: RejectionSummary;
+  schema?: ExportSchemaId | null; // null when no header row was reached
+  format?: FileFormat | null;
+  encoding?: TextEncoding | null;
+  files?: FileImportResult[]; // one per export imported from a ZIP upload
+  networkDiff?: NetworkDiffSummary | null;
+  cancelled?: boolean;
+  error?: string;
+}
+
+// Outcome of one export inside a ZIP upload
+export interface FileImportResult {
+  fileName: string;
+  schema: ExportSchemaId | null;
+  format: FileFormat | null;
+  encoding: TextEncoding | null;
+  processedRecords: number;
+  duplicateRecords: number;
+  updatedRecords: number;
+  unchangedRecords: number;
+  skippedRecords: number;
+  totalRecords: number;
+  rejections?: RejectionSummary;
+  cancelled?: boolean;
+  error?: string; // the file could not be imported; the others still were
+}
+
+// Result of reverting an upload's import
+export interface UndoUploadResult {
+  success: boolean;
+  deletedRecords: number;
+  deletedBySchema?: Partial<Record<ExportSchemaId, number>>;
+  error?: string;
+}
+
+// Result of re-hashing an owner's connections with canonical URLs
+export interface RehashUrlsResult {
+  success: boolean;
+  scannedRecords: number;
+  rehashedRecords: number; // rows whose url_hash or Profile URL changed
+  mergedRecords: number; // duplicates folded into another row and deleted
   error?: string;
 }
 
+// Backoff policy for failed jobs
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitterRatio: number; // 0.2 spreads each delay by +/-20%
+}
+
+// Job handler registry types
+export interface JobContext {
+  // Aborted when an operator cancels the job through the admin API
+  signal: AbortSignal;
+}
+
+export interface JobHandler<TResult = unknown> {
+  type: JobType;
+  // Overrides the worker-wide retry policy for this job type
+  retryPolicy?: Partial<RetryPolicy>;
+  // Throws a ValidationError when the job cannot be handled
+  validate(job: Job): void;
+  process(job: Job, context: JobContext): Promise<TResult>;
+  // One-line summary of a result for logging
+  describeResult(result: TResult): string;
+}
+
+// Export schema registry types
+export interface ExportSchema<TRecord extends ExportRecord = ExportRecord> {
+  id: ExportSchemaId;
+  // Name of the file in LinkedIn's data archive ZIP
+  fileName: string;
+  // Header cells that identify the export, compared case-insensitively
+  requiredHeaders: string[];
+  // RPC that inserts a batch of formatted records; same contract as
+  // process_connections_batch
+  rpcName: string;
+  // Table the RPC writes to and the column that tells its rows apart; undo
+  // deletes an upload's rows from here by upload_id
+  table: string;
+  recordKey: "url_hash" | "record_hash";
+  // Date column read with the file's day/month order, named the same in the
+  // file and the record. Unparseable values are flagged INVALID_CONNECTED_ON
+  dateField?: string;
+  // Why a row cannot be imported, or null; may tidy the row in place
+  validate(row: Record<string, any>): RowRejectionReason | null;
+  format(
+    row: Record<string, any>,
+    owner: string,
+    uploadId: string,
+    hashCache?: Map<string, string>
+  ): TRecord;
+}
+
 // Processing progress with duplicate info
 export interface ProcessingResult {
   validRows: ProcessedConnection[];
@@ -114,6 +371,42 @@ export interface StorageChunk {
   checksum?: string;
 }
 
+export type StorageDriverName = "supabase" | "local" | "s3";
+
+// An object directly inside a storage folder, named relative to it
+export interface StoredObject {
+  name: string;
+  size: number;
+  checksum?: string;
+}
+
+export interface StorageBucketInfo {
+  name: string;
+  public: boolean;
+  file_size_limit?: number;
+}
+
+/**
+ * A backend upload chunks are read from and reports are written to
+ * Paths are relative to the configured bucket
+ */
+export interface StorageDriver {
+  name: StorageDriverName;
+  /** List the objects directly inside a folder */
+  list: (folder: string) => Promise<StoredObject[]>;
+  /** Open an object for reading, or resolve null when it does not exist */
+  download: (path: string) => Promise<Readable | null>;
+  /** Write an object, replacing any existing one */
+  upload: (
+    path: string,
+    body: Buffer | Readable,
+    options: { contentType: string; contentLength: number }
+  ) => Promise<void>;
+  /** Delete objects; paths that do not exist are ignored */
+  remove: (paths: string[]) => Promise<void>;
+  getBucketInfo: () => Promise<StorageBucketInfo>;
+}
+
 export interface ProcessingProgress {
   jobId: string;
   uploadId: string;
@@ -125,35 +418,74 @@ export interface ProcessingProgress {
 }
 
 // Error types
+// Transient errors may succeed on retry; permanent ones never will
+export type ErrorCategory = "transient" | "permanent";
+
 export class WorkerError extends Error {
   constructor(
     message: string,
     public readonly code: string,
     public readonly jobId?: string,
-    public readonly uploadId?: string
+    public readonly uploadId?: string,
+    public readonly category: ErrorCategory = "transient"
   ) {
     super(message);
     this.name = "WorkerError";
   }
+
+  get isRetryable(): boolean {
+    return this.category === "transient";
+  }
 }
 
 export class StorageError extends WorkerError {
-  constructor(message: string, jobId?: string, uploadId?: string) {
-    super(message, "STORAGE_ERROR", jobId, uploadId);
+  constructor(
+    message: string,
+    jobId?: string,
+    uploadId?: string,
+    category: ErrorCategory = "transient"
+  ) {
+    super(message, "STORAGE_ERROR", jobId, uploadId, category);
     this.name = "StorageError";
   }
 }
 
 export class DatabaseError extends WorkerError {
-  constructor(message: string, jobId?: string, uploadId?: string) {
-    super(message, "DATABASE_ERROR", jobId, uploadId);
+  constructor(
+    message: string,
+    jobId?: string,
+    uploadId?: string,
+    category: ErrorCategory = "transient"
+  ) {
+    super(message, "DATABASE_ERROR", jobId, uploadId, category);
     this.name = "DatabaseError";
   }
 }
 
 export class ValidationError extends WorkerError {
   constructor(message: string, jobId?: string, uploadId?: string) {
-    super(message, "VALIDATION_ERROR", jobId, uploadId);
+    super(message, "VALIDATION_ERROR", jobId, uploadId, "permanent");
     this.name = "ValidationError";
   }
 }
+
+export class JobCancelledError extends WorkerError {
+  constructor(message: string, jobId?: string, uploadId?: string) {
+    super(message, "JOB_CANCELLED", jobId, uploadId, "permanent");
+    this.name = "JobCancelledError";
+  }
+}
+
+export class ArchiveError extends WorkerError {
+  constructor(message: string, jobId?: string, uploadId?: string) {
+    super(message, "ARCHIVE_ERROR", jobId, uploadId, "permanent");
+    this.name = "ArchiveError";
+  }
+}
+
+export class ChunkIntegrityError extends WorkerError {
+  constructor(message: string, jobId?: string, uploadId?: string) {
+    super(message, "CHUNK_INTEGRITY_ERROR", jobId, uploadId, "permanent");
+    this.name = "ChunkIntegrityError";
+  }
+}
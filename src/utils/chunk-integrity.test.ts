@@ -0,0 +1,228 @@
+import { createHash } from "crypto";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import { StorageChunk, StorageDriver, StoredObject, Upload } from "../types";
+import { setStorageDriver } from "../storage";
+import { getUploadChunks as getRecordedChunks } from "./database";
+import { buildChunkManifest, verifyChunkContent } from "./chunk-integrity";
+
+jest.mock("./database", () => ({ getUploadChunks: jest.fn() }));
+
+const recordedChunks = jest.mocked(getRecordedChunks);
+
+const DATA = Buffer.from("First Name,Last Name,URL\nJane,Doe,x\n");
+
+function digest(algorithm: string, encoding: "hex" | "base64"): string {
+  return createHash(algorithm).update(DATA).digest(encoding);
+}
+
+function chunk(checksum?: string): StorageChunk {
+  return {
+    path: "upload-1/f.csv.part0",
+    size: DATA.length,
+    ...(checksum && { checksum }),
+  };
+}
+
+/**
+ * A storage driver that lists the given objects and nothing else
+ */
+function listingDriver(objects: StoredObject[]): StorageDriver {
+  return {
+    name: "local",
+    list: async () => objects,
+    download: async () => null,
+    upload: async () => {},
+    remove: async () => {},
+    getBucketInfo: async () => ({ name: "test", public: false }),
+  };
+}
+
+function upload(bytesTotal: number): Upload {
+  return {
+    id: "upload-1",
+    user_id: "owner-1",
+    filename: "my.partners.csv",
+    bytes_total: bytesTotal,
+    bytes_uploaded: bytesTotal,
+    status: "processing",
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+  };
+}
+
+describe("verifyChunkContent", () => {
+  it.each([
+    ["a bare hex sha256", digest("sha256", "hex")],
+    ["a bare base64 sha256", digest("sha256", "base64")],
+    ["a bare hex md5", digest("md5", "hex")],
+    ["a bare hex sha1", digest("sha1", "hex")],
+    ["a bare hex sha512", digest("sha512", "hex")],
+    ["a prefixed sha256", `sha256:${digest("sha256", "hex")}`],
+    ["a prefixed, dashed SHA-256", `SHA-256:${digest("sha256", "base64")}`],
+    ["an upper-case hex digest", digest("sha256", "hex").toUpperCase()],
+    ["a digest with surrounding space", ` ${digest("md5", "hex")}\n`],
+  ])("accepts %s", (_description, checksum) => {
+    expect(() =>
+      verifyChunkContent(chunk(checksum), DATA, "upload-1")
+    ).not.toThrow();
+  });
+
+  it("accepts chunks without a recorded checksum on their size", () => {
+    expect(() => verifyChunkContent(chunk(), DATA, "upload-1")).not.toThrow();
+  });
+
+  it("fails a chunk of the wrong size", () => {
+    expect(() =>
+      verifyChunkContent(chunk(), DATA.subarray(1), "upload-1")
+    ).toThrow(
+      `downloaded with ${DATA.length - 1} bytes, expected ${DATA.length}`
+    );
+  });
+
+  it("fails a chunk whose content does not match", () => {
+    const changed = Buffer.from(DATA);
+    changed[0] = 0x66;
+
+    expect(() =>
+      verifyChunkContent(chunk(digest("sha256", "hex")), changed, "upload-1")
+    ).toThrow("failed its sha256 checksum");
+  });
+
+  it.each([
+    ["an unknown digest length", "abcdef"],
+    ["characters no digest uses", "not a checksum!"],
+  ])("fails %s as unrecognized", (_description, checksum) => {
+    expect(() => verifyChunkContent(chunk(checksum), DATA, "upload-1")).toThrow(
+      "has an unrecognized checksum"
+    );
+  });
+
+  it("fails an algorithm the platform does not support", () => {
+    expect(() =>
+      verifyChunkContent(chunk("crc99:abcd"), DATA, "upload-1")
+    ).toThrow("uses an unsupported checksum algorithm: crc99");
+  });
+
+  it("reports failures as permanent chunk integrity errors", () => {
+    expect.assertions(2);
+    try {
+      verifyChunkContent(chunk("sha256:abcd"), DATA, "upload-1");
+    } catch (error) {
+      expect(error).toMatchObject({
+        code: "CHUNK_INTEGRITY_ERROR",
+        category: "permanent",
+        uploadId: "upload-1",
+      });
+      expect((error as Error).name).toBe("ChunkIntegrityError");
+    }
+  });
+});
+
+describe("buildChunkManifest", () => {
+  beforeEach(() => {
+    recordedChunks.mockReset();
+  });
+
+  afterEach(() => {
+    setStorageDriver(null);
+  });
+
+  it("returns the stored chunks in recorded order with recorded checksums", async () => {
+    recordedChunks.mockResolvedValue([
+      { chunk_index: 0, size: 10, checksum: "sha256:aa" },
+      { chunk_index: 1, size: 10, checksum: "sha256:bb" },
+      { chunk_index: 2, size: 5 },
+    ]);
+    setStorageDriver(
+      listingDriver([
+        { name: "my.partners.csv.part2", size: 5 },
+        { name: "my.partners.csv.part0", size: 10 },
+        { name: "my.partners.csv.part1", size: 0 },
+      ])
+    );
+
+    expect(await buildChunkManifest(upload(25))).toEqual([
+      {
+        path: "upload-1/my.partners.csv.part0",
+        size: 10,
+        checksum: "sha256:aa",
+      },
+      {
+        path: "upload-1/my.partners.csv.part1",
+        size: 10,
+        checksum: "sha256:bb",
+      },
+      { path: "upload-1/my.partners.csv.part2", size: 5 },
+    ]);
+  });
+
+  it("fails when no chunks are recorded", async () => {
+    recordedChunks.mockResolvedValue([]);
+
+    await expect(buildChunkManifest(upload(0))).rejects.toThrow(
+      "Upload upload-1 has no recorded chunks"
+    );
+  });
+
+  it("fails on a gap in the recorded sequence", async () => {
+    recordedChunks.mockResolvedValue([
+      { chunk_index: 0, size: 10 },
+      { chunk_index: 2, size: 10 },
+    ]);
+
+    await expect(buildChunkManifest(upload(20))).rejects.toThrow(
+      "Upload upload-1 is missing chunk 1 of 2"
+    );
+  });
+
+  it("fails on a chunk recorded twice", async () => {
+    recordedChunks.mockResolvedValue([
+      { chunk_index: 0, size: 10 },
+      { chunk_index: 0, size: 10 },
+    ]);
+
+    await expect(buildChunkManifest(upload(20))).rejects.toThrow(
+      "Upload upload-1 has chunk 0 recorded twice"
+    );
+  });
+
+  it("fails when the recorded sizes miss the upload size", async () => {
+    recordedChunks.mockResolvedValue([{ chunk_index: 0, size: 10 }]);
+
+    await expect(buildChunkManifest(upload(11))).rejects.toThrow(
+      "chunks add up to 10 bytes, expected 11"
+    );
+  });
+
+  it("fails when a recorded chunk is missing from storage", async () => {
+    recordedChunks.mockResolvedValue([
+      { chunk_index: 0, size: 10 },
+      { chunk_index: 1, size: 10 },
+    ]);
+    setStorageDriver(
+      listingDriver([{ name: "my.partners.csv.part0", size: 10 }])
+    );
+
+    await expect(buildChunkManifest(upload(20))).rejects.toThrow(
+      "Chunk 1 of upload upload-1 is missing from storage"
+    );
+  });
+
+  it("fails when a chunk is stored with another size", async () => {
+    recordedChunks.mockResolvedValue([{ chunk_index: 0, size: 10 }]);
+    setStorageDriver(
+      listingDriver([{ name: "my.partners.csv.part0", size: 9 }])
+    );
+
+    await expect(buildChunkManifest(upload(10))).rejects.toThrow(
+      "is stored with 9 bytes, expected 10"
+    );
+  });
+});
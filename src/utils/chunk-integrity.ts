@@ -0,0 +1,154 @@
+import { createHash } from "crypto";
+import { ChunkIntegrityError, StorageChunk, Upload } from "../types";
+import { getUploadChunks as getRecordedChunks } from "./database";
+import { getChunkIndex, getUploadChunks as listStoredChunks } from "./storage";
+
+// Digest sizes in bytes, used to name the algorithm of an unprefixed checksum
+const DIGEST_ALGORITHMS: Record<number, string> = {
+  16: "md5",
+  20: "sha1",
+  32: "sha256",
+  64: "sha512",
+};
+
+/**
+ * Read a recorded checksum: a hex or base64 digest, optionally prefixed with
+ * its algorithm ("sha256:...")
+ */
+function parseChecksum(
+  checksum: string
+): { algorithm: string; digest: Buffer } | null {
+  const match = checksum
+    .trim()
+    .match(/^(?:([a-z0-9-]+):)?([A-Za-z0-9+/=_-]+)$/i);
+  if (!match) return null;
+
+  const [, prefix, value] = match;
+  const digest = /^(?:[0-9a-f]{2})+$/i.test(value!)
+    ? Buffer.from(value!, "hex")
+    : Buffer.from(value!, "base64");
+  const algorithm =
+    prefix?.toLowerCase().replace("-", "") || DIGEST_ALGORITHMS[digest.length];
+
+  return algorithm ? { algorithm, digest } : null;
+}
+
+/**
+ * Build the list of chunks to download from the upload_chunks records
+ * Fails when the recorded sequence has a gap, a recorded chunk is not in
+ * storage or is stored with another size, or the sizes do not add up to the
+ * upload's size. Chunks come back in order with their recorded size and
+ * checksum, ready for verifyChunkContent
+ */
+export async function buildChunkManifest(
+  upload: Upload
+): Promise<StorageChunk[]> {
+  const records = await getRecordedChunks(upload.id);
+  if (records.length === 0) {
+    throw new ChunkIntegrityError(
+      `Upload ${upload.id} has no recorded chunks`,
+      undefined,
+      upload.id
+    );
+  }
+
+  records.forEach((record, position) => {
+    if (record.chunk_index !== position) {
+      throw new ChunkIntegrityError(
+        record.chunk_index > position
+          ? `Upload ${upload.id} is missing chunk ${position} of ${records.length}`
+          : `Upload ${upload.id} has chunk ${record.chunk_index} recorded twice`,
+        undefined,
+        upload.id
+      );
+    }
+  });
+
+  const recordedBytes = records.reduce((sum, record) => sum + record.size, 0);
+  if (recordedBytes !== upload.bytes_total) {
+    throw new ChunkIntegrityError(
+      `Upload ${upload.id} chunks add up to ${recordedBytes} bytes, expected ${upload.bytes_total}`,
+      undefined,
+      upload.id
+    );
+  }
+
+  const stored = new Map(
+    (await listStoredChunks(upload.id, upload.filename)).map((chunk) => [
+      getChunkIndex(chunk.path),
+      chunk,
+    ])
+  );
+
+  return records.map((record) => {
+    const chunk = stored.get(record.chunk_index);
+    if (!chunk) {
+      throw new ChunkIntegrityError(
+        `Chunk ${record.chunk_index} of upload ${upload.id} is missing from storage`,
+        undefined,
+        upload.id
+      );
+    }
+    // Storage metadata may leave the size out; the download is checked anyway
+    if (chunk.size && chunk.size !== record.size) {
+      throw new ChunkIntegrityError(
+        `Chunk ${chunk.path} is stored with ${chunk.size} bytes, expected ${record.size}`,
+        undefined,
+        upload.id
+      );
+    }
+
+    return {
+      path: chunk.path,
+      size: record.size,
+      ...(record.checksum && { checksum: record.checksum }),
+    };
+  });
+}
+
+/**
+ * Check a downloaded chunk against its recorded size and checksum
+ */
+export function verifyChunkContent(
+  chunk: StorageChunk,
+  data: Buffer,
+  uploadId: string
+): void {
+  if (data.length !== chunk.size) {
+    throw new ChunkIntegrityError(
+      `Chunk ${chunk.path} downloaded with ${data.length} bytes, expected ${chunk.size}`,
+      undefined,
+      uploadId
+    );
+  }
+
+  if (!chunk.checksum) return;
+
+  const expected = parseChecksum(chunk.checksum);
+  if (!expected) {
+    throw new ChunkIntegrityError(
+      `Chunk ${chunk.path} has an unrecognized checksum: ${chunk.checksum}`,
+      undefined,
+      uploadId
+    );
+  }
+
+  let actual: Buffer;
+  try {
+    actual = createHash(expected.algorithm).update(data).digest();
+  } catch {
+    throw new ChunkIntegrityError(
+      `Chunk ${chunk.path} uses an unsupported checksum algorithm: ${expected.algorithm}`,
+      undefined,
+      uploadId
+    );
+  }
+
+  if (!actual.equals(expected.digest)) {
+    throw new ChunkIntegrityError(
+      `Chunk ${chunk.path} failed its ${expected.algorithm} checksum (expected ${expected.digest.toString("hex")}, got ${actual.toString("hex")})`,
+      undefined,
+      uploadId
+    );
+  }
+}
@@ -8,7 +8,15 @@ import {
   ProcessedConnection,
   BatchProcessResult,
   DatabaseError,
+  DeadLetterInfo,
+  ErrorCategory,
+  ExportRecord,
+  ExportSchema,
+  JobAttempt,
+  MergeMode,
+  RetryPolicy,
 } from "../types";
+import { classifyError, getPostgresErrorCategory } from "./errors";
 
 // Retry configuration
 const RETRY_CONFIG = {
@@ -18,6 +26,20 @@ const RETRY_CONFIG = {
   exponentialBackoff: true,
 };
 
+// Table process_connections_batch writes imported connections to
+export const CONNECTIONS_TABLE =
+  process.env.CONNECTIONS_TABLE || "connections";
+
+export const MERGE_MODES: MergeMode[] = ["skip", "overwrite", "fill_empty"];
+
+// Default backoff for failed jobs, overridden by WorkerConfig and job handlers
+export const DEFAULT_JOB_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 30000, // 30 seconds
+  maxDelayMs: 3600000, // 1 hour
+  jitterRatio: 0.2,
+};
+
 /**
  * Sleep utility for retry delays
  */
@@ -37,6 +59,23 @@ function calculateRetryDelay(attempt: number): number {
   return Math.min(delay, RETRY_CONFIG.maxDelay);
 }
 
+/**
+ * Calculate how long a failed job waits before its next attempt
+ * Exponential in the number of failures so far, with jitter so jobs that
+ * failed together do not all come back at the same moment
+ */
+export function calculateJobRetryDelay(
+  failures: number,
+  policy: RetryPolicy
+): number {
+  const delay = Math.min(
+    policy.baseDelayMs * Math.pow(2, Math.max(failures - 1, 0)),
+    policy.maxDelayMs
+  );
+  const jitter = delay * policy.jitterRatio * (Math.random() * 2 - 1);
+  return Math.max(Math.round(delay + jitter), 0);
+}
+
 /**
  * Retry wrapper for database operations
  */
@@ -53,8 +92,8 @@ async function withRetry<T>(
     } catch (error) {
       lastError = error as Error;
 
-      // Don't retry on certain types of errors
-      if (error instanceof DatabaseError && error.code === "VALIDATION_ERROR") {
+      // Don't retry errors that will fail the same way every time
+      if (classifyError(error).category === "permanent") {
         throw error;
       }
 
@@ -91,7 +130,12 @@ export async function getNextJob(
       });
 
       if (error) {
-        throw new DatabaseError(`Failed to get next job: ${error.message}`);
+        throw new DatabaseError(
+          `Failed to get next job: ${error.message}`,
+          undefined,
+          undefined,
+          getPostgresErrorCategory(error.code)
+        );
       }
 
       // If RPC returns a row with all null values, treat it as no job available
@@ -133,7 +177,9 @@ export async function updateJobProgress(
     if (updateError) {
       throw new DatabaseError(
         `Failed to update job progress: ${updateError.message}`,
-        jobId
+        jobId,
+        undefined,
+        getPostgresErrorCategory(updateError.code)
       );
     }
 
@@ -141,6 +187,47 @@ export async function updateJobProgress(
   }, `Update job progress for ${jobId}`);
 }
 
+/**
+ * Get a job's stored result, or an empty one
+ */
+async function getJobResult(jobId: string): Promise<Record<string, any>> {
+  return withRetry(async () => {
+    const { data, error } = await supabase
+      .from("jobs")
+      .select("result")
+      .eq("id", jobId)
+      .single();
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to get job result: ${error.message}`,
+        jobId,
+        undefined,
+        getPostgresErrorCategory(error.code)
+      );
+    }
+
+    return data?.result || {};
+  }, `Get job result for ${jobId}`);
+}
+
+/**
+ * Update job progress, merging fields into the stored result
+ * update_job_progress replaces the whole result, so every write that carries
+ * one goes through here to keep the rest: attempt history, the resume
+ * checkpoint, per-file results. Fields set to undefined are removed
+ */
+export async function mergeJobResult(
+  jobId: string,
+  fields: Record<string, any>,
+  status: JobStatus | null = null,
+  progress: number | null = null,
+  error: string | null = null
+): Promise<Job> {
+  const result = { ...(await getJobResult(jobId)), ...fields };
+  return updateJobProgress(jobId, status, progress, error, true, result);
+}
+
 /**
  * Update upload status with retry logic
  */
@@ -165,7 +252,8 @@ export async function updateUploadStatus(
       throw new DatabaseError(
         `Failed to update upload status: ${updateError.message}`,
         undefined,
-        uploadId
+        uploadId,
+        getPostgresErrorCategory(updateError.code)
       );
     }
 
@@ -188,7 +276,8 @@ export async function getUpload(uploadId: string): Promise<Upload> {
       throw new DatabaseError(
         `Failed to get upload: ${error.message}`,
         undefined,
-        uploadId
+        uploadId,
+        getPostgresErrorCategory(error.code)
       );
     }
 
@@ -200,24 +289,92 @@ export async function getUpload(uploadId: string): Promise<Upload> {
 }
 
 /**
- * Batch insert LinkedIn connections with retry logic and better error handling
+ * Get the owner's most recent completed upload created before the given one
  */
-export async function batchInsertConnections(
-  connections: ProcessedConnection[]
+export async function getPreviousCompletedUpload(
+  upload: Pick<Upload, "id" | "user_id" | "created_at">
+): Promise<Upload | null> {
+  const { data, error } = await supabase
+    .from("uploads")
+    .select("*")
+    .eq("user_id", upload.user_id)
+    .eq("status", "completed")
+    .neq("id", upload.id)
+    .lt("created_at", upload.created_at)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to get previous upload: ${error.message}`,
+      undefined,
+      upload.id,
+      getPostgresErrorCategory(error.code)
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Fill in the merge breakdown for results from process_connections_batch
+ * Versions without merge support only report duplicates, all of them skipped
+ */
+function normalizeBatchResult(
+  result: Partial<BatchProcessResult>
+): BatchProcessResult {
+  const duplicates = result.duplicate_count || 0;
+  const updated = result.updated_count || 0;
+  const unchanged = result.unchanged_count || 0;
+
+  return {
+    inserted_count: result.inserted_count || 0,
+    duplicate_count: duplicates,
+    updated_count: updated,
+    unchanged_count: unchanged,
+    skipped_count: result.skipped_count ?? duplicates - updated - unchanged,
+  };
+}
+
+/**
+ * Batch insert formatted export records through their schema's RPC
+ * Existing records are skipped, overwritten or filled in per mergeMode
+ */
+export async function batchInsertRecords(
+  rpcName: string,
+  records: ExportRecord[],
+  mergeMode: MergeMode = "skip"
 ): Promise<BatchProcessResult[]> {
   return withRetry(async () => {
-    const { data, error } = await supabase.rpc("process_connections_batch", {
-      records: connections,
+    const { data, error } = await supabase.rpc(rpcName, {
+      records,
+      // Omitted for skip so the call matches the original function signature
+      ...(mergeMode !== "skip" && { merge_mode: mergeMode }),
     });
 
     if (error) {
       throw new DatabaseError(
-        `Failed to insert connections batch: ${error.message}`
+        `Failed to insert ${rpcName} batch: ${error.message}`,
+        undefined,
+        undefined,
+        getPostgresErrorCategory(error.code)
       );
     }
 
-    return data || [];
-  }, `Batch insert of ${connections.length} connections`);
+    return (data || []).map(normalizeBatchResult);
+  }, `Batch insert of ${records.length} records via ${rpcName}`);
+}
+
+/**
+ * Batch insert LinkedIn connections with retry logic and better error handling
+ * Existing connections are skipped, overwritten or filled in per mergeMode
+ */
+export async function batchInsertConnections(
+  connections: ProcessedConnection[],
+  mergeMode: MergeMode = "skip"
+): Promise<BatchProcessResult[]> {
+  return batchInsertRecords("process_connections_batch", connections, mergeMode);
 }
 
 /**
@@ -307,7 +464,7 @@ export async function cleanupOldJobs(daysOld: number = 7): Promise<number> {
     const { count, error } = await supabase
       .from("jobs")
       .delete({ count: "exact" })
-      .in("status", ["succeeded", "failed"])
+      .in("status", ["succeeded", "failed", "cancelled"])
       .lt("updated_at", cutoffDate.toISOString());
 
     if (error) {
@@ -321,19 +478,53 @@ export async function cleanupOldJobs(daysOld: number = 7): Promise<number> {
   }
 }
 
+/**
+ * Mark a job cancelled, keeping its result and adding the given fields
+ */
+export async function markJobCancelled(
+  jobId: string,
+  reason: string,
+  fields: Record<string, any> = {}
+): Promise<Job> {
+  return mergeJobResult(
+    jobId,
+    {
+      ...fields,
+      cancelled: true,
+      cancelledAt: new Date().toISOString(),
+      success: false,
+    },
+    "cancelled",
+    null,
+    reason
+  );
+}
+
 /**
  * Mark job as failed with retry logic
+ * Every failure is appended to the job's attempt history along with its error
+ * code and category. A transient failure with retries left is scheduled for a
+ * backed-off next attempt; a permanent failure, or one that exhausts the
+ * retries, moves to the dead-letter queue instead of "failed", so
+ * cleanupOldJobs keeps it and its storage chunks stay available for a requeue
  */
 export async function markJobFailed(
   jobId: string,
-  errorMessage: string,
-  maxRetries: number = 3
-): Promise<{ status: JobStatus; attempts: number; willRetry: boolean }> {
+  failure: unknown,
+  retryPolicy: RetryPolicy = DEFAULT_JOB_RETRY_POLICY
+): Promise<{
+  status: JobStatus;
+  attempts: number;
+  willRetry: boolean;
+  nextAttemptAt: string | null;
+  errorCode: string;
+  errorCategory: ErrorCategory;
+}> {
   try {
     // Get current job to check retry count
     const { data: job, error: getError } = await supabase
       .from("jobs")
-      .select("attempts")
+      .select("attempts, upload_id, result")
       .eq("id", jobId)
       .single();
 
@@ -344,15 +535,62 @@ export async function markJobFailed(
       );
     }
 
+    const {
+      code: errorCode,
+      category: errorCategory,
+      message: errorMessage,
+    } = classifyError(failure);
     const attempts = job.attempts || 0;
-    const newStatus: JobStatus = attempts < maxRetries ? "retrying" : "failed";
+    const newStatus: JobStatus =
+      errorCategory === "transient" && attempts < retryPolicy.maxRetries
+        ? "scheduled"
+        : "dead_letter";
+    const failedAt = new Date().toISOString();
+
+    const attemptHistory: JobAttempt[] = [
+      ...(job.result?.attemptHistory || []),
+      {
+        attempt: attempts + 1,
+        error: errorMessage,
+        errorCode,
+        errorCategory,
+        failedAt,
+      },
+    ];
+    const result: Record<string, any> = { attemptHistory };
 
-    await updateJobProgress(jobId, newStatus, null, errorMessage, true);
+    if (newStatus === "dead_letter") {
+      const deadLetter: DeadLetterInfo = {
+        reason: errorMessage,
+        attempts: attempts + 1,
+        deadLetteredAt: failedAt,
+        upload: await getUploadMetadata(job.upload_id),
+      };
+      result.deadLetter = deadLetter;
+    }
+
+    // Set the retry time before the status change so the job is never
+    // scheduled without one
+    let nextAttemptAt: string | null = null;
+    if (newStatus === "scheduled") {
+      const delay = calculateJobRetryDelay(attempts + 1, retryPolicy);
+      nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    }
+    await setJobFailureDetails(jobId, {
+      next_attempt_at: nextAttemptAt,
+      error_code: errorCode,
+      error_category: errorCategory,
+    });
+
+    await mergeJobResult(jobId, result, newStatus, null, errorMessage);
 
     return {
       status: newStatus,
       attempts: attempts + 1,
-      willRetry: newStatus === "retrying",
+      willRetry: newStatus === "scheduled",
+      nextAttemptAt,
+      errorCode,
+      errorCategory,
     };
   } catch (error) {
     console.error("Error marking job as failed:", error);
@@ -360,6 +598,439 @@ export async function markJobFailed(
   }
 }
 
+/**
+ * Record the structured error and, for scheduled jobs, the next attempt time
+ */
+async function setJobFailureDetails(
+  jobId: string,
+  details: Pick<Job, "next_attempt_at" | "error_code" | "error_category">
+): Promise<void> {
+  const { error } = await supabase
+    .from("jobs")
+    .update(details)
+    .eq("id", jobId);
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to record job failure details: ${error.message}`,
+      jobId
+    );
+  }
+}
+
+/**
+ * Release scheduled jobs whose backoff has elapsed back to "retrying",
+ * where get_next_job can pick them up
+ * A single conditional update, so concurrent workers cannot double-release
+ */
+export async function releaseDueRetries(): Promise<number> {
+  const { count, error } = await supabase
+    .from("jobs")
+    .update({ status: "retrying" }, { count: "exact" })
+    .eq("status", "scheduled")
+    .lte("next_attempt_at", new Date().toISOString());
+
+  if (error) {
+    throw new DatabaseError(`Failed to release due retries: ${error.message}`);
+  }
+
+  return count || 0;
+}
+
+/**
+ * Get the upload fields worth keeping with a dead-lettered job
+ */
+async function getUploadMetadata(
+  uploadId: string | null
+): Promise<DeadLetterInfo["upload"]> {
+  if (!uploadId) return null;
+
+  try {
+    const { id, user_id, filename, bytes_total } = await getUpload(uploadId);
+    return { id, user_id, filename, bytes_total };
+  } catch (error) {
+    // The dead-letter entry is still useful without the upload details
+    console.warn("Could not load upload metadata for dead-letter entry:", error);
+    return null;
+  }
+}
+
+/**
+ * List jobs in the dead-letter queue, most recent first
+ */
+export async function listDeadLetterJobs(limit: number = 100): Promise<Job[]> {
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("*")
+    .eq("status", "dead_letter")
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to list dead-letter jobs: ${error.message}`
+    );
+  }
+
+  return data || [];
+}
+
+/**
+ * Put dead-lettered jobs back on the queue with a fresh retry budget
+ * Requeues the given jobs, or the whole dead-letter queue when no ids are passed.
+ * The job result (attempt history, checkpoint) is kept so processing resumes
+ */
+export async function requeueDeadLetterJobs(
+  jobIds?: string[]
+): Promise<Array<Pick<Job, "id" | "upload_id">>> {
+  let query = supabase
+    .from("jobs")
+    .update({
+      status: "queued",
+      attempts: 0,
+      progress: 0,
+      error: null,
+      error_code: null,
+      error_category: null,
+      next_attempt_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("status", "dead_letter");
+
+  if (jobIds) {
+    query = query.in("id", jobIds);
+  }
+
+  const { data, error } = await query.select("id, upload_id");
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to requeue dead-letter jobs: ${error.message}`
+    );
+  }
+
+  const requeued = data || [];
+  for (const job of requeued) {
+    if (job.upload_id) {
+      await updateUploadStatus(job.upload_id, "queued", null, null);
+    }
+  }
+
+  return requeued;
+}
+
+/**
+ * Find running jobs whose heartbeat is older than the cutoff
+ * Jobs that never sent a heartbeat fall back to their updated_at time
+ */
+export async function findStaleJobs(
+  cutoff: Date
+): Promise<
+  Array<
+    Pick<Job, "id" | "type" | "upload_id" | "attempts" | "last_heartbeat_at">
+  >
+> {
+  const cutoffIso = cutoff.toISOString();
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("id, type, upload_id, attempts, last_heartbeat_at")
+    .eq("status", "running")
+    .or(
+      `last_heartbeat_at.lt.${cutoffIso},and(last_heartbeat_at.is.null,updated_at.lt.${cutoffIso})`
+    );
+
+  if (error) {
+    throw new DatabaseError(`Failed to find stale jobs: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+/**
+ * Atomically take ownership of a stale job before reclaiming it
+ * The update only matches if no other worker has touched the heartbeat since
+ * it was read, so exactly one reaper wins when several run at once
+ */
+export async function claimStaleJob(
+  jobId: string,
+  lastHeartbeatAt: string | null
+): Promise<boolean> {
+  let query = supabase
+    .from("jobs")
+    .update({ last_heartbeat_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("status", "running");
+
+  query =
+    lastHeartbeatAt === null
+      ? query.is("last_heartbeat_at", null)
+      : query.eq("last_heartbeat_at", lastHeartbeatAt);
+
+  const { data, error } = await query.select("id");
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to claim stale job: ${error.message}`,
+      jobId
+    );
+  }
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Queue a new job for an upload
+ */
+export async function enqueueJob(uploadId: string, type: JobType): Promise<Job> {
+  const { data, error } = await supabase
+    .from("jobs")
+    .insert({ upload_id: uploadId, type, status: "queued", attempts: 0 })
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to enqueue ${type} job: ${error.message}`,
+      undefined,
+      uploadId,
+      getPostgresErrorCategory(error.code)
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Delete one page of the records an upload inserted into an export's table
+ * Rows the upload only matched as duplicates keep the upload_id of the import
+ * that created them, so they are never touched. Returns the number deleted
+ */
+export async function deleteUploadRecords(
+  schema: Pick<ExportSchema, "table" | "recordKey">,
+  uploadId: string,
+  owner: string,
+  pageSize: number = 1000
+): Promise<number> {
+  const { table, recordKey } = schema;
+
+  return withRetry(async () => {
+    const { data: page, error: selectError } = await supabase
+      .from(table)
+      .select(recordKey)
+      .eq("upload_id", uploadId)
+      .eq("Owner", owner)
+      .limit(pageSize);
+
+    if (selectError) {
+      throw new DatabaseError(
+        `Failed to list ${table} rows for upload: ${selectError.message}`,
+        undefined,
+        uploadId,
+        getPostgresErrorCategory(selectError.code)
+      );
+    }
+
+    if (!page || page.length === 0) return 0;
+
+    const { count, error: deleteError } = await supabase
+      .from(table)
+      .delete({ count: "exact" })
+      .eq("upload_id", uploadId)
+      .eq("Owner", owner)
+      .in(
+        recordKey,
+        page.map((row: Record<string, string>) => row[recordKey])
+      );
+
+    if (deleteError) {
+      throw new DatabaseError(
+        `Failed to delete ${table} rows for upload: ${deleteError.message}`,
+        undefined,
+        uploadId,
+        getPostgresErrorCategory(deleteError.code)
+      );
+    }
+
+    return count || 0;
+  }, `Delete ${table} rows for upload ${uploadId}`);
+}
+
+/**
+ * Get one page of an owner's connections in url_hash order
+ * Pass the last url_hash of the previous page to get the next one
+ */
+export async function listOwnerConnections(
+  owner: string,
+  afterUrlHash: string | null,
+  pageSize: number = 1000
+): Promise<ProcessedConnection[]> {
+  return withRetry(async () => {
+    let query = supabase
+      .from(CONNECTIONS_TABLE)
+      .select(
+        'Name, "Profile URL", Owner, Email, Company, Title, "Connected On", url_hash, upload_id'
+      )
+      .eq("Owner", owner);
+
+    if (afterUrlHash !== null) {
+      query = query.gt("url_hash", afterUrlHash);
+    }
+
+    const { data, error } = await query
+      .order("url_hash", { ascending: true })
+      .limit(pageSize);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to list connections for owner: ${error.message}`,
+        undefined,
+        undefined,
+        getPostgresErrorCategory(error.code)
+      );
+    }
+
+    return (data || []) as ProcessedConnection[];
+  }, `List connections for owner ${owner}`);
+}
+
+/**
+ * Update one of an owner's connections, identified by its url_hash
+ */
+export async function updateConnection(
+  owner: string,
+  urlHash: string,
+  changes: Partial<ProcessedConnection>
+): Promise<void> {
+  return withRetry(async () => {
+    const { error } = await supabase
+      .from(CONNECTIONS_TABLE)
+      .update(changes)
+      .eq("Owner", owner)
+      .eq("url_hash", urlHash);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to update connection: ${error.message}`,
+        undefined,
+        undefined,
+        getPostgresErrorCategory(error.code)
+      );
+    }
+  }, `Update connection ${urlHash}`);
+}
+
+/**
+ * Delete an owner's connections by url_hash, returning the number deleted
+ */
+export async function deleteConnectionsByHash(
+  owner: string,
+  urlHashes: string[]
+): Promise<number> {
+  if (urlHashes.length === 0) return 0;
+
+  return withRetry(async () => {
+    const { count, error } = await supabase
+      .from(CONNECTIONS_TABLE)
+      .delete({ count: "exact" })
+      .eq("Owner", owner)
+      .in("url_hash", urlHashes);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to delete connections: ${error.message}`,
+        undefined,
+        undefined,
+        getPostgresErrorCategory(error.code)
+      );
+    }
+
+    return count || 0;
+  }, `Delete ${urlHashes.length} connections`);
+}
+
+/**
+ * Get the owner's most recent completed upload
+ */
+export async function getLatestCompletedUpload(
+  owner: string
+): Promise<Upload | null> {
+  const { data, error } = await supabase
+    .from("uploads")
+    .select("*")
+    .eq("user_id", owner)
+    .eq("status", "completed")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to get latest upload: ${error.message}`,
+      undefined,
+      undefined,
+      getPostgresErrorCategory(error.code)
+    );
+  }
+
+  return data;
+}
+
+/**
+ * Get the most recent upload of every owner, newest first
+ */
+export async function listLatestUploadPerOwner(
+  pageSize: number = 1000
+): Promise<Pick<Upload, "id" | "user_id">[]> {
+  const latest = new Map<string, Pick<Upload, "id" | "user_id">>();
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from("uploads")
+      .select("id, user_id")
+      .order("created_at", { ascending: false })
+      .range(from, from + pageSize - 1);
+
+    if (error) {
+      throw new DatabaseError(
+        `Failed to list uploads: ${error.message}`,
+        undefined,
+        undefined,
+        getPostgresErrorCategory(error.code)
+      );
+    }
+
+    for (const upload of data || []) {
+      if (!latest.has(upload.user_id)) latest.set(upload.user_id, upload);
+    }
+
+    if (!data || data.length < pageSize) break;
+  }
+
+  return Array.from(latest.values());
+}
+
+/**
+ * Check whether cancellation has been requested for a job
+ */
+export async function isJobCancelRequested(jobId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("jobs")
+    .select("cancel_requested_at")
+    .eq("id", jobId)
+    .single();
+
+  if (error) {
+    throw new DatabaseError(
+      `Failed to check job cancellation: ${error.message}`,
+      jobId,
+      undefined,
+      getPostgresErrorCategory(error.code)
+    );
+  }
+
+  return !!data?.cancel_requested_at;
+}
+
 /**
  * Get upload chunks for a specific upload
  */
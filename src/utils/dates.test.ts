@@ -0,0 +1,119 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  createDateOrderDetector,
+  getDetectedDateOrder,
+  lockDateOrder,
+  parseConnectedOn,
+  recordDateEvidence,
+} from "./dates";
+
+describe("parseConnectedOn", () => {
+  it.each([
+    ["12 Mar 2021", "2021-03-12"],
+    ["Mar 12, 2021", "2021-03-12"],
+    ["12 mars 2021", "2021-03-12"],
+    ["12. März 2021", "2021-03-12"],
+    ["12 de mar. de 2021", "2021-03-12"],
+    ["1 févr. 2020", "2020-02-01"],
+    ["2021-03-12", "2021-03-12"],
+    ["12.03.2021", "2021-03-12"],
+    ["25/03/2021", "2021-03-25"],
+    ["03/25/2021", "2021-03-25"],
+    ["03/25/21", "2021-03-25"],
+  ])("parses %s", (value, iso) => {
+    expect(parseConnectedOn(value)).toEqual({ status: "parsed", iso });
+  });
+
+  it("leaves numeric dates with both parts under 13 ambiguous", () => {
+    expect(parseConnectedOn("03/04/2021")).toEqual({
+      status: "ambiguous",
+      iso: null,
+    });
+  });
+
+  it("reads ambiguous dates in the order it is given", () => {
+    expect(parseConnectedOn("03/04/2021", "DMY").iso).toBe("2021-04-03");
+    expect(parseConnectedOn("03/04/2021", "MDY").iso).toBe("2021-03-04");
+  });
+
+  it("ignores the given order when the date settles it", () => {
+    expect(parseConnectedOn("25/03/2021", "MDY").iso).toBe("2021-03-25");
+    expect(parseConnectedOn("12.03.2021", "MDY").iso).toBe("2021-03-12");
+  });
+
+  it.each([
+    "31 Feb 2021",
+    "2021-13-01",
+    "30/02/2021",
+    "yesterday",
+    "12 Foo 2021",
+  ])("rejects %s", (value) => {
+    expect(parseConnectedOn(value)).toEqual({ status: "invalid", iso: null });
+  });
+
+  it("reports blank values as empty", () => {
+    expect(parseConnectedOn("  ").status).toBe("empty");
+    expect(parseConnectedOn(null).status).toBe("empty");
+    expect(parseConnectedOn(undefined).status).toBe("empty");
+  });
+});
+
+describe("date order detection", () => {
+  it("has no order until a date settles it", () => {
+    const detector = createDateOrderDetector();
+    recordDateEvidence(detector, "03/04/2021");
+    recordDateEvidence(detector, "12 Mar 2021");
+    recordDateEvidence(detector, "");
+
+    expect(getDetectedDateOrder(detector)).toBeNull();
+  });
+
+  it("detects day-first files", () => {
+    const detector = createDateOrderDetector();
+    recordDateEvidence(detector, "03/04/2021");
+    recordDateEvidence(detector, "25/04/2021");
+
+    expect(getDetectedDateOrder(detector)).toBe("DMY");
+  });
+
+  it("detects month-first files", () => {
+    const detector = createDateOrderDetector();
+    recordDateEvidence(detector, "04/25/2021");
+
+    expect(getDetectedDateOrder(detector)).toBe("MDY");
+  });
+
+  it("counts dotted dates as day-first", () => {
+    const detector = createDateOrderDetector();
+    recordDateEvidence(detector, "03.04.2021");
+
+    expect(getDetectedDateOrder(detector)).toBe("DMY");
+  });
+
+  it("goes with the majority when the evidence conflicts", () => {
+    const detector = createDateOrderDetector();
+    recordDateEvidence(detector, "25/04/2021");
+    recordDateEvidence(detector, "04/25/2021");
+    recordDateEvidence(detector, "04/26/2021");
+
+    expect(getDetectedDateOrder(detector)).toBe("MDY");
+  });
+
+  it("locks the detected order, or the fallback when nothing settled it", () => {
+    const detected = createDateOrderDetector();
+    recordDateEvidence(detected, "25/04/2021");
+    expect(lockDateOrder(detected, "MDY")).toBe("DMY");
+
+    const undecided = createDateOrderDetector();
+    expect(lockDateOrder(undecided, "MDY")).toBe("MDY");
+  });
+
+  it("keeps a locked order whatever evidence comes later", () => {
+    const detector = createDateOrderDetector();
+    lockDateOrder(detector, "MDY");
+    recordDateEvidence(detector, "25/04/2021");
+    recordDateEvidence(detector, "26/04/2021");
+
+    expect(getDetectedDateOrder(detector)).toBe("MDY");
+  });
+});
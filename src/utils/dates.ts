@@ -0,0 +1,204 @@
+/**
+ * "Connected On" date parsing for LinkedIn exports
+ * Exports use the account's locale: "12 Mar 2021", "Mar 12, 2021",
+ * "12 mars 2021", "12. März 2021", "12 de mar. de 2021", "03/12/2021",
+ * "12.03.2021" or "2021-03-12". Output is an ISO date (YYYY-MM-DD)
+ */
+
+import { DateOrder } from "../types";
+
+export type DateParseStatus = "parsed" | "ambiguous" | "invalid" | "empty";
+
+export interface DateParseResult {
+  status: DateParseStatus;
+  iso: string | null;
+}
+
+// Collects evidence for the day/month order of numeric dates in one file
+export interface DateOrderDetector {
+  dmyVotes: number;
+  mdyVotes: number;
+  order: DateOrder | null;
+}
+
+// Month names and abbreviations in English, French, German, Spanish,
+// Portuguese, Italian and Dutch, without accents or trailing dots
+const MONTH_NAMES_BY_NUMBER = [
+  "jan january janv janvier januar janner ene enero janeiro gen gennaio januari",
+  "feb february fev fevr fevrier februar febrero fevereiro febbraio februari",
+  "mar march mars marz maerz marzo marco mrt maart",
+  "apr april avr avril abr abril aprile",
+  "may mai mayo maio mag maggio mei",
+  "jun june juin juni junio junho giu giugno",
+  "jul july juil juillet juli julio julho lug luglio",
+  "aug august aout ago agosto augustus",
+  "sep sept september septembre septiembre set setembro settembre",
+  "oct october octobre okt oktober octubre out outubro ott ottobre",
+  "nov november novembre noviembre novembro",
+  "dec december decembre dez dezember dic diciembre dezembro dicembre",
+];
+const MONTH_NAMES = new Map<string, number>();
+MONTH_NAMES_BY_NUMBER.forEach((names, index) =>
+  names.split(" ").forEach((name) => MONTH_NAMES.set(name, index + 1))
+);
+
+// Words that appear between the parts of a written date
+const FILLER_WORDS = new Set(["de", "of", "the"]);
+
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/;
+const NUMERIC_DATE = /^(\d{1,2})([-/.])(\d{1,2})\2(\d{4}|\d{2})$/;
+
+/**
+ * Build an ISO date, or null when the parts are not a real calendar date
+ */
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Expand a two-digit year; LinkedIn connections cannot predate 2000 by much
+ */
+function toFullYear(year: string): number {
+  const value = parseInt(year, 10);
+  return year.length === 2 ? 2000 + value : value;
+}
+
+/**
+ * Lowercase and strip accents so "März" and "fevr." match the month table
+ */
+function normalizeWord(word: string): string {
+  return word
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\.$/, "");
+}
+
+/**
+ * Parse a date with a written month, e.g. "12 Mar 2021" or "Mar 12, 2021"
+ */
+function parseWrittenDate(value: string): string | null {
+  const words = value
+    .split(/[\s,]+/)
+    .map(normalizeWord)
+    .filter((word) => word && !FILLER_WORDS.has(word));
+
+  let month: number | null = null;
+  let year: number | null = null;
+  let day: number | null = null;
+
+  for (const word of words) {
+    if (/^\d{4}$/.test(word) && year === null) {
+      year = parseInt(word, 10);
+    } else if (/^\d{1,2}$/.test(word) && day === null) {
+      day = parseInt(word, 10);
+    } else if (MONTH_NAMES.has(word) && month === null) {
+      month = MONTH_NAMES.get(word)!;
+    } else {
+      return null;
+    }
+  }
+
+  if (month === null || year === null || day === null) return null;
+  return toIsoDate(year, month, day);
+}
+
+/**
+ * Parse a "Connected On" value
+ * Numeric dates whose day and month are both 12 or less come back as
+ * "ambiguous" unless the file's order is passed in
+ */
+export function parseConnectedOn(
+  value: string | null | undefined,
+  order?: DateOrder
+): DateParseResult {
+  const text = (value || "").trim();
+  if (!text) return { status: "empty", iso: null };
+
+  const isoMatch = text.match(ISO_DATE);
+  if (isoMatch) {
+    const iso = toIsoDate(
+      parseInt(isoMatch[1], 10),
+      parseInt(isoMatch[2], 10),
+      parseInt(isoMatch[3], 10)
+    );
+    return iso ? { status: "parsed", iso } : { status: "invalid", iso: null };
+  }
+
+  const numericMatch = text.match(NUMERIC_DATE);
+  if (numericMatch) {
+    const first = parseInt(numericMatch[1], 10);
+    const second = parseInt(numericMatch[3], 10);
+    const year = toFullYear(numericMatch[4]);
+
+    // Dotted dates ("12.03.2021") are only ever written day-first
+    let resolvedOrder: DateOrder | undefined = order;
+    if (first > 12 || numericMatch[2] === ".") resolvedOrder = "DMY";
+    else if (second > 12) resolvedOrder = "MDY";
+
+    if (!resolvedOrder) return { status: "ambiguous", iso: null };
+
+    const iso =
+      resolvedOrder === "DMY"
+        ? toIsoDate(year, second, first)
+        : toIsoDate(year, first, second);
+    return iso ? { status: "parsed", iso } : { status: "invalid", iso: null };
+  }
+
+  const iso = parseWrittenDate(text);
+  return iso ? { status: "parsed", iso } : { status: "invalid", iso: null };
+}
+
+/**
+ * Create a detector for one file's numeric date order
+ */
+export function createDateOrderDetector(): DateOrderDetector {
+  return { dmyVotes: 0, mdyVotes: 0, order: null };
+}
+
+/**
+ * Count a value as evidence for the file's date order
+ * Only numeric dates with a day above 12 settle the question; dotted dates
+ * ("12.03.2021") are only written day-first
+ */
+export function recordDateEvidence(
+  detector: DateOrderDetector,
+  value: string | null | undefined
+): void {
+  const match = (value || "").trim().match(NUMERIC_DATE);
+  if (!match) return;
+
+  const first = parseInt(match[1], 10);
+  const second = parseInt(match[3], 10);
+
+  if (first > 12 || match[2] === ".") detector.dmyVotes++;
+  else if (second > 12) detector.mdyVotes++;
+}
+
+/**
+ * Get the order the evidence points to, or null if nothing has settled it
+ */
+export function getDetectedDateOrder(
+  detector: DateOrderDetector
+): DateOrder | null {
+  if (detector.order) return detector.order;
+  if (detector.dmyVotes === 0 && detector.mdyVotes === 0) return null;
+  return detector.dmyVotes >= detector.mdyVotes ? "DMY" : "MDY";
+}
+
+/**
+ * Fix the order used for the rest of the file
+ */
+export function lockDateOrder(
+  detector: DateOrderDetector,
+  fallback: DateOrder
+): DateOrder {
+  detector.order = getDetectedDateOrder(detector) ?? fallback;
+  return detector.order;
+}
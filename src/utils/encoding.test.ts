@@ -0,0 +1,139 @@
+import { Readable } from "stream";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { TextEncoding } from "../types";
+import { createTranscodeStream } from "./encoding";
+
+const HEADER = "First Name,Last Name,URL\n";
+
+/**
+ * Run bytes through the transcoder in pieces of the given size
+ */
+async function transcode(
+  bytes: Buffer,
+  pieceSize = bytes.length || 1
+): Promise<{ text: string; encodings: TextEncoding[] }> {
+  const pieces: Buffer[] = [];
+  for (let start = 0; start < bytes.length; start += pieceSize) {
+    pieces.push(bytes.subarray(start, start + pieceSize));
+  }
+
+  const encodings: TextEncoding[] = [];
+  const stream = Readable.from(pieces).pipe(createTranscodeStream());
+  stream.on("encoding", (encoding: TextEncoding) => encodings.push(encoding));
+
+  const parts: Buffer[] = [];
+  for await (const part of stream) {
+    parts.push(Buffer.isBuffer(part) ? part : Buffer.from(part, "utf8"));
+  }
+  return { text: Buffer.concat(parts).toString("utf8"), encodings };
+}
+
+function utf16be(text: string): Buffer {
+  return Buffer.from(text, "utf16le").swap16();
+}
+
+describe("createTranscodeStream", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("passes plain ASCII through as UTF-8", async () => {
+    const text = `${HEADER}Jane,Doe,https://www.linkedin.com/in/jane\n`;
+
+    expect(await transcode(Buffer.from(text))).toEqual({
+      text,
+      encodings: ["utf-8"],
+    });
+  });
+
+  it("keeps UTF-8, BOM included, for the header detection to strip", async () => {
+    const text = `﻿${HEADER}Zoë,Müller,x\n`;
+
+    expect(await transcode(Buffer.from(text, "utf8"), 3)).toEqual({
+      text,
+      encodings: ["utf-8"],
+    });
+  });
+
+  it("keeps UTF-8 characters split across chunks whole", async () => {
+    const text = `${HEADER}${"Renée,Dupré,x\n".repeat(10)}`;
+
+    expect(await transcode(Buffer.from(text, "utf8"), 1)).toEqual({
+      text,
+      encodings: ["utf-8"],
+    });
+  });
+
+  it("decodes UTF-16LE with a BOM", async () => {
+    const text = `${HEADER}Zoë,Müller,x\n`;
+    const bytes = Buffer.concat([
+      Buffer.from([0xff, 0xfe]),
+      Buffer.from(text, "utf16le"),
+    ]);
+
+    expect(await transcode(bytes, 7)).toEqual({
+      text,
+      encodings: ["utf-16le"],
+    });
+  });
+
+  it("decodes UTF-16BE with a BOM", async () => {
+    const text = `${HEADER}Zoë,Müller,x\n`;
+    const bytes = Buffer.concat([Buffer.from([0xfe, 0xff]), utf16be(text)]);
+
+    expect(await transcode(bytes)).toEqual({
+      text,
+      encodings: ["utf-16be"],
+    });
+  });
+
+  it("recognises UTF-16 without a BOM from its zero bytes", async () => {
+    const text = `${HEADER}Jane,Doe,x\n`;
+
+    expect((await transcode(Buffer.from(text, "utf16le"))).encodings).toEqual([
+      "utf-16le",
+    ]);
+    expect(await transcode(utf16be(text))).toEqual({
+      text,
+      encodings: ["utf-16be"],
+    });
+  });
+
+  it("falls back to Windows-1252 when the text is not UTF-8", async () => {
+    const text = `${HEADER}Zoë,Müller,x\nRenée,Dupré,x\n`;
+
+    expect(await transcode(Buffer.from(text, "latin1"), 5)).toEqual({
+      text,
+      encodings: ["windows-1252"],
+    });
+  });
+
+  it("decodes Windows-1252 characters outside Latin-1", async () => {
+    const bytes = Buffer.concat([
+      Buffer.from(HEADER),
+      Buffer.from([0x93, 0x4a, 0x6f, 0x94, 0x2c, 0x80, 0x0a]),
+    ]);
+
+    expect((await transcode(bytes)).text).toBe(`${HEADER}“Jo”,€\n`);
+  });
+
+  it("settles the encoding on the first non-ASCII character, however late", async () => {
+    const ascii = `${HEADER}${"Jane,Doe,x\n".repeat(1000)}`;
+    const bytes = Buffer.concat([
+      Buffer.from(ascii),
+      Buffer.from("Zoë,x\n", "latin1"),
+    ]);
+
+    expect(await transcode(bytes, 1000)).toEqual({
+      text: `${ascii}Zoë,x\n`,
+      encodings: ["windows-1252"],
+    });
+  });
+
+  it("handles an empty upload", async () => {
+    expect(await transcode(Buffer.alloc(0))).toEqual({
+      text: "",
+      encodings: ["utf-8"],
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Transform } from "stream";
+import { TextDecoder } from "util";
+import { TextEncoding } from "../types";
+
+// Bytes held back to look for a BOM or UTF-16 before any text is passed on
+const SNIFF_BYTES = 4096;
+// Bytes from the first non-ASCII character checked for valid UTF-8
+const UTF8_SAMPLE_BYTES = 64;
+
+const BYTE_ORDER_MARKS: Array<[TextEncoding, Buffer]> = [
+  ["utf-8", Buffer.from([0xef, 0xbb, 0xbf])],
+  ["utf-16le", Buffer.from([0xff, 0xfe])],
+  ["utf-16be", Buffer.from([0xfe, 0xff])],
+];
+
+// Windows-1252 characters for bytes 0x80-0x9F, where it differs from Latin-1;
+// the five bytes it leaves undefined keep their Latin-1 control characters
+const WINDOWS_1252_HIGH =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+/**
+ * Recognize an encoding from a BOM, or UTF-16 from its zero bytes
+ * Text in UTF-16 is mostly ASCII for a LinkedIn export, which leaves a zero
+ * in every other byte; returns null when neither applies
+ */
+function sniffEncoding(head: Buffer): TextEncoding | null {
+  for (const [encoding, bom] of BYTE_ORDER_MARKS) {
+    if (head.subarray(0, bom.length).equals(bom)) return encoding;
+  }
+
+  const pairs = Math.floor(Math.min(head.length, SNIFF_BYTES) / 2);
+  if (pairs === 0) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (head[i] === 0) evenZeros++;
+    if (head[i + 1] === 0) oddZeros++;
+  }
+
+  if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return "utf-16le";
+  if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return "utf-16be";
+  return null;
+}
+
+/**
+ * Check that bytes are valid UTF-8, allowing a character cut off at the end
+ */
+function isUtf8(bytes: Buffer): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decode Windows-1252 text
+ * Node's TextDecoder reads "windows-1252" as Latin-1, which turns the curly
+ * quotes, dashes and euro signs Excel writes into control characters
+ */
+function decodeWindows1252(bytes: Buffer): string {
+  return bytes
+    .toString("latin1")
+    .replace(
+      /[\x80-\x9f]/g,
+      (char) => WINDOWS_1252_HIGH[char.charCodeAt(0) - 0x80]!
+    );
+}
+
+/**
+ * Create a transform that re-encodes an upload as UTF-8
+ * Without a BOM or UTF-16 zero bytes, text is read as UTF-8 until the first
+ * non-ASCII character shows it is not, and then as Windows-1252, which is what
+ * Excel on Windows saves. Characters split across chunks are kept whole.
+ * Emits "encoding" once the encoding is settled
+ */
+export function createTranscodeStream(): Transform {
+  let pending: Buffer = Buffer.alloc(0);
+  let sniffed = false;
+  let encoding: TextEncoding | null = null;
+  // UTF-8 passes straight through; the header detection stream decodes it
+  let decode: ((bytes: Buffer, isFinal: boolean) => string) | null = null;
+
+  const settle = (stream: Transform, detected: TextEncoding): void => {
+    encoding = detected;
+    if (detected === "windows-1252") {
+      decode = decodeWindows1252;
+    } else if (detected !== "utf-8") {
+      const decoder = new TextDecoder(detected);
+      decode = (bytes, isFinal) => decoder.decode(bytes, { stream: !isFinal });
+    }
+    console.log(`🔤 Reading upload as ${detected}`);
+    stream.emit("encoding", detected);
+  };
+
+  const push = (stream: Transform, bytes: Buffer, isFinal: boolean): void => {
+    if (decode) {
+      const text = decode(bytes, isFinal);
+      if (text) stream.push(text);
+    } else if (bytes.length > 0) {
+      stream.push(bytes);
+    }
+  };
+
+  const handle = (stream: Transform, chunk: Buffer, isFinal: boolean) => {
+    const bytes = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    pending = Buffer.alloc(0);
+
+    if (!sniffed) {
+      if (bytes.length < SNIFF_BYTES && !isFinal) {
+        pending = bytes;
+        return;
+      }
+      sniffed = true;
+      const detected = sniffEncoding(bytes);
+      if (detected) settle(stream, detected);
+    }
+
+    if (!encoding) {
+      // ASCII reads the same in every candidate, so it can go on ahead
+      const first = bytes.findIndex((byte) => byte >= 0x80);
+      if (first === -1) {
+        push(stream, bytes, isFinal);
+        return;
+      }
+      if (bytes.length - first < UTF8_SAMPLE_BYTES && !isFinal) {
+        push(stream, bytes.subarray(0, first), false);
+        pending = bytes.subarray(first);
+        return;
+      }
+
+      const sample = bytes.subarray(first, first + UTF8_SAMPLE_BYTES);
+      settle(stream, isUtf8(sample) ? "utf-8" : "windows-1252");
+    }
+
+    push(stream, bytes, isFinal);
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      try {
+        handle(this, chunk, false);
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+
+    flush(callback) {
+      try {
+        handle(this, Buffer.alloc(0), true);
+        // Nothing but ASCII: UTF-8 as far as anyone can tell
+        if (!encoding) settle(this, "utf-8");
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
+  });
+}
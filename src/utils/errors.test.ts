@@ -0,0 +1,84 @@
+import { describe, expect, it } from "@jest/globals";
+import { DatabaseError, StorageError, ValidationError } from "../types";
+import { classifyError, getPostgresErrorCategory } from "./errors";
+
+describe("getPostgresErrorCategory", () => {
+  it.each(["22P02", "23505", "42P01", "42501", "PGRST116"])(
+    "treats %s as permanent",
+    (code) => {
+      expect(getPostgresErrorCategory(code)).toBe("permanent");
+    }
+  );
+
+  it.each(["40001", "53300", "57014", "08006", "PGRST301"])(
+    "treats %s as transient",
+    (code) => {
+      expect(getPostgresErrorCategory(code)).toBe("transient");
+    }
+  );
+
+  it("treats a missing code as transient", () => {
+    expect(getPostgresErrorCategory()).toBe("transient");
+    expect(getPostgresErrorCategory("")).toBe("transient");
+  });
+});
+
+describe("classifyError", () => {
+  it("keeps the code and category of worker errors", () => {
+    expect(classifyError(new ValidationError("bad header"))).toEqual({
+      code: "VALIDATION_ERROR",
+      category: "permanent",
+      message: "bad header",
+    });
+    expect(
+      classifyError(
+        new DatabaseError("no such table", undefined, undefined, "permanent")
+      )
+    ).toMatchObject({ code: "DATABASE_ERROR", category: "permanent" });
+    expect(classifyError(new StorageError("timed out"))).toMatchObject({
+      code: "STORAGE_ERROR",
+      category: "transient",
+    });
+  });
+
+  it("recognises network failures by system code", () => {
+    const error = Object.assign(new Error("read failed"), {
+      code: "ECONNRESET",
+    });
+    expect(classifyError(error)).toEqual({
+      code: "NETWORK_ERROR",
+      category: "transient",
+      message: "read failed",
+    });
+  });
+
+  it("recognises network failures by the code of their cause", () => {
+    const error = Object.assign(new Error("request failed"), {
+      cause: Object.assign(new Error("connect"), { code: "UND_ERR_SOCKET" }),
+    });
+    expect(classifyError(error).code).toBe("NETWORK_ERROR");
+  });
+
+  it("recognises network failures by message", () => {
+    expect(classifyError(new TypeError("fetch failed")).code).toBe(
+      "NETWORK_ERROR"
+    );
+    expect(classifyError(new Error("socket hang up")).code).toBe(
+      "NETWORK_ERROR"
+    );
+  });
+
+  it("treats anything else as a transient unknown error", () => {
+    expect(classifyError(new Error("something odd"))).toEqual({
+      code: "UNKNOWN_ERROR",
+      category: "transient",
+      message: "something odd",
+    });
+    expect(classifyError("plain string")).toEqual({
+      code: "UNKNOWN_ERROR",
+      category: "transient",
+      message: "plain string",
+    });
+    expect(classifyError(null).category).toBe("transient");
+  });
+});
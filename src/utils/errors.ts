@@ -0,0 +1,65 @@
+import { ErrorCategory, WorkerError } from "../types";
+
+export interface ErrorClassification {
+  code: string;
+  category: ErrorCategory;
+  message: string;
+}
+
+// Node/undici network failures that are worth retrying
+const TRANSIENT_NETWORK_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "ENOTFOUND",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/**
+ * Classify a Postgres / PostgREST error code
+ * Data, integrity and schema errors will fail the same way every time;
+ * connection, lock and resource errors may clear up
+ */
+export function getPostgresErrorCategory(code?: string): ErrorCategory {
+  if (!code) return "transient";
+
+  // PGRST116: the query returned no rows where one was required
+  if (code === "PGRST116") return "permanent";
+
+  // 22: data exception, 23: integrity constraint violation,
+  // 42: syntax error or access rule violation
+  if (/^(22|23|42)/.test(code)) return "permanent";
+
+  return "transient";
+}
+
+/**
+ * Classify any thrown value into a structured error code and category
+ * Unknown errors are treated as transient so behaviour stays retry-first
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof WorkerError) {
+    return {
+      code: error.code,
+      category: error.category,
+      message: error.message,
+    };
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const systemCode =
+    (error as { code?: string })?.code ||
+    (error as { cause?: { code?: string } })?.cause?.code;
+
+  if (
+    (systemCode && TRANSIENT_NETWORK_CODES.has(systemCode)) ||
+    /fetch failed|network|socket hang up/i.test(message)
+  ) {
+    return { code: "NETWORK_ERROR", category: "transient", message };
+  }
+
+  return { code: "UNKNOWN_ERROR", category: "transient", message };
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  canonicalizeLinkedInUrl,
+  extractLinkedInProfileId,
+} from "./linkedin-url";
+
+describe("canonicalizeLinkedInUrl", () => {
+  it.each([
+    "https://www.linkedin.com/in/jane",
+    "https://www.linkedin.com/in/jane/",
+    "http://www.linkedin.com/in/jane",
+    "http://uk.linkedin.com/in/jane/?trk=abc",
+    "https://linkedin.com/in/jane#experience",
+    "https://www.linkedin.com/in/Jane",
+    "https://www.linkedin.com/in/jane/details/experience/",
+    "https://www.linkedin.com/mwlite/in/jane",
+    "https://m.linkedin.com/in/jane",
+    "linkedin.com/in/Jane%20",
+    "www.linkedin.com/in/jane",
+    "  https://www.linkedin.com/in/jane  ",
+  ])("canonicalizes %s", (url) => {
+    expect(canonicalizeLinkedInUrl(url)).toBe(
+      "https://www.linkedin.com/in/jane"
+    );
+  });
+
+  it("decodes and lowercases percent-encoded vanity ids", () => {
+    expect(
+      canonicalizeLinkedInUrl(
+        "https://www.linkedin.com/in/J%C3%B6rg-M%C3%BCller"
+      )
+    ).toBe("https://www.linkedin.com/in/jörg-müller");
+  });
+
+  it("keeps malformed percent-encoding as written", () => {
+    expect(canonicalizeLinkedInUrl("https://www.linkedin.com/in/jane%E0")).toBe(
+      "https://www.linkedin.com/in/jane%e0"
+    );
+  });
+
+  it("unifies composed and decomposed accents", () => {
+    expect(
+      canonicalizeLinkedInUrl("https://www.linkedin.com/in/jo\u0301se")
+    ).toBe("https://www.linkedin.com/in/j\u00f3se");
+  });
+
+  it.each([
+    "",
+    "   ",
+    null,
+    undefined,
+    "https://www.linkedin.com/company/acme",
+    "https://www.linkedin.com/in/",
+    "https://notlinkedin.com/in/jane",
+    "https://linkedin.com.evil.example/in/jane",
+    "https://example.com/in/jane",
+    "not a url",
+  ])("rejects %p", (url) => {
+    expect(canonicalizeLinkedInUrl(url)).toBeNull();
+  });
+});
+
+describe("extractLinkedInProfileId", () => {
+  it("returns the lowercased vanity id", () => {
+    expect(
+      extractLinkedInProfileId(
+        "http://uk.linkedin.com/in/Jane-Doe-123/?trk=abc"
+      )
+    ).toBe("jane-doe-123");
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Canonical LinkedIn profile URLs
+ * The same profile shows up as "https://www.linkedin.com/in/jane",
+ * "http://uk.linkedin.com/in/jane/?trk=abc", "linkedin.com/in/Jane%20" or
+ * "https://www.linkedin.com/mwlite/in/jane". All of them canonicalize to
+ * "https://www.linkedin.com/in/jane"
+ */
+
+const CANONICAL_PROFILE_PREFIX = "https://www.linkedin.com/in/";
+
+// linkedin.com itself or any subdomain (www, uk, m, ...)
+const LINKEDIN_HOST = /^(?:[a-z0-9-]+\.)*linkedin\.com$/;
+
+// Path segments mobile and lite pages put in front of /in/
+const PROFILE_PATH_PREFIXES = new Set(["m", "mwlite"]);
+
+/**
+ * Decode percent-encoding, keeping the text as is if it is malformed
+ */
+function safeDecode(text: string): string {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Get the vanity id of a LinkedIn profile URL, e.g. "jane" for
+ * "http://uk.linkedin.com/in/Jane/?trk=abc", or null if the URL is not one
+ */
+export function extractLinkedInProfileId(
+  url: string | null | undefined
+): string | null {
+  let text = (url || "").trim();
+  if (!text) return null;
+
+  // Exports sometimes leave the scheme off
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(text)) {
+    text = `https://${text.replace(/^\/+/, "")}`;
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(text);
+  } catch {
+    return null;
+  }
+
+  if (!LINKEDIN_HOST.test(parsed.hostname)) return null;
+
+  const segments = parsed.pathname.split("/").filter(Boolean);
+  const start = PROFILE_PATH_PREFIXES.has(segments[0]?.toLowerCase()) ? 1 : 0;
+  if (segments[start]?.toLowerCase() !== "in") return null;
+
+  const profileId = safeDecode(segments[start + 1] || "")
+    .normalize("NFC")
+    .trim()
+    .toLowerCase();
+
+  return profileId || null;
+}
+
+/**
+ * Canonicalize a LinkedIn profile URL, or return null if it is not one
+ * Scheme and subdomain are unified, query strings, fragments and trailing
+ * path segments dropped, and the vanity id decoded and lowercased
+ */
+export function canonicalizeLinkedInUrl(
+  url: string | null | undefined
+): string | null {
+  const profileId = extractLinkedInProfileId(url);
+  return profileId ? `${CANONICAL_PROFILE_PREFIX}${profileId}` : null;
+}
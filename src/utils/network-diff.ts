@@ -0,0 +1,121 @@
+import { NetworkDiffSummary, Upload } from "../types";
+import { getPreviousCompletedUpload } from "./database";
+import { downloadReportContent, uploadReportContent } from "./storage";
+
+/**
+ * Get the storage path of an upload's url_hash snapshot
+ * Every LinkedIn export is a full copy of the network, so the snapshot is
+ * what the next upload from the same owner is compared against
+ */
+export function getSnapshotPath(uploadId: string): string {
+  return `reports/${uploadId}/url-hashes.txt`;
+}
+
+/**
+ * Get the storage path of an upload's network diff
+ */
+export function getNetworkDiffPath(uploadId: string): string {
+  return `reports/${uploadId}/network-diff.json`;
+}
+
+/**
+ * Save the url_hash of every connection in an upload, one per line
+ */
+export async function saveUrlHashSnapshot(
+  uploadId: string,
+  urlHashes: Set<string>
+): Promise<void> {
+  const content = Array.from(urlHashes).sort().join("\n");
+  await uploadReportContent(getSnapshotPath(uploadId), content, "text/plain");
+}
+
+/**
+ * Load an upload's url_hash snapshot, or null if it never got one
+ */
+export async function loadUrlHashSnapshot(
+  uploadId: string
+): Promise<Set<string> | null> {
+  const content = await downloadReportContent(getSnapshotPath(uploadId));
+  if (content === null) return null;
+
+  return new Set(content.split("\n").filter(Boolean));
+}
+
+/**
+ * Rewrite an upload's snapshot after its connections were re-hashed
+ * Returns false if the upload has no snapshot
+ */
+export async function remapUrlHashSnapshot(
+  uploadId: string,
+  hashMap: Map<string, string>
+): Promise<boolean> {
+  const urlHashes = await loadUrlHashSnapshot(uploadId);
+  if (!urlHashes) return false;
+
+  const remapped = new Set(
+    Array.from(urlHashes, (hash) => hashMap.get(hash) ?? hash)
+  );
+  await saveUrlHashSnapshot(uploadId, remapped);
+  return true;
+}
+
+/**
+ * Snapshot an upload's connections and compare them with the owner's
+ * previous completed upload
+ * The full added/removed lists go to storage; the summary goes in the job result
+ */
+export async function diffAgainstPreviousUpload(
+  upload: Pick<Upload, "id" | "user_id" | "created_at">,
+  urlHashes: Set<string>
+): Promise<NetworkDiffSummary> {
+  await saveUrlHashSnapshot(upload.id, urlHashes);
+
+  const previousUpload = await getPreviousCompletedUpload(upload);
+  const previousHashes = previousUpload
+    ? await loadUrlHashSnapshot(previousUpload.id)
+    : null;
+
+  if (!previousUpload || !previousHashes) {
+    console.log(
+      previousUpload
+        ? `🔀 Previous upload ${previousUpload.id} has no snapshot; skipping network diff`
+        : "🔀 No previous upload to compare against; skipping network diff"
+    );
+    return {
+      previousUploadId: null,
+      addedCount: 0,
+      removedCount: 0,
+      unchangedCount: 0,
+      reportPath: null,
+    };
+  }
+
+  const added = Array.from(urlHashes).filter((hash) => !previousHashes.has(hash));
+  const removed = Array.from(previousHashes).filter(
+    (hash) => !urlHashes.has(hash)
+  );
+
+  const reportPath = getNetworkDiffPath(upload.id);
+  await uploadReportContent(
+    reportPath,
+    JSON.stringify({
+      uploadId: upload.id,
+      previousUploadId: previousUpload.id,
+      added: added.sort(),
+      removed: removed.sort(),
+    }),
+    "application/json"
+  );
+
+  console.log(
+    `🔀 Network diff against upload ${previousUpload.id}: ${added.length} new, ${removed.length} removed`
+  );
+
+  return {
+    previousUploadId: previousUpload.id,
+    addedCount: added.length,
+    removedCount: removed.length,
+    unchangedCount: urlHashes.size - added.length,
+    reportPath,
+  };
+}
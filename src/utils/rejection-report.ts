@@ -0,0 +1,221 @@
+import { createWriteStream, promises as fs, WriteStream } from "fs";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+import { RejectionSummary, RowRejection, RowRejectionReason } from "../types";
+import { uploadReportFile } from "./storage";
+
+const REJECTION_SAMPLE_SIZE = parseInt(
+  process.env.REJECTION_SAMPLE_SIZE || "50"
+);
+
+// Reasons that flag a row for attention without keeping it out of the import
+const FLAGGED_REASONS: RowRejectionReason[] = ["INVALID_CONNECTED_ON"];
+
+// Columns of the downloadable report, in LinkedIn connections export order
+const REPORT_COLUMNS = [
+  "First Name",
+  "Last Name",
+  "URL",
+  "Email Address",
+  "Company",
+  "Position",
+  "Connected On",
+];
+
+export interface RejectionReport {
+  uploadId: string;
+  fileName: string | null; // the ZIP member the report covers
+  columns: string[];
+  totalRejected: number;
+  totalFlagged: number;
+  byReason: Partial<Record<RowRejectionReason, number>>;
+  sample: RowRejection[];
+  sampleSize: number;
+  tempFilePath: string;
+  writer: WriteStream | null;
+}
+
+/**
+ * Escape a single value for CSV output
+ */
+function escapeCsvValue(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Lay out a rejected row in the report's column order
+ * Malformed rows arrive as raw column arrays, everything else as header-keyed objects
+ */
+function toReportValues(
+  columns: string[],
+  row: RowRejection["row"]
+): string[] {
+  if (Array.isArray(row)) {
+    return columns.map((_, index) => row[index] ?? "");
+  }
+
+  return columns.map((column) => {
+    const key = Object.keys(row).find(
+      (k) => k.toLowerCase().trim() === column.toLowerCase()
+    );
+    return key ? row[key] : "";
+  });
+}
+
+/**
+ * Get the storage path of an upload's rejection report
+ * Kept outside the upload's chunk folder so chunk cleanup leaves it alone
+ * ZIP uploads get one report per member file
+ */
+export function getRejectionReportPath(
+  uploadId: string,
+  fileName: string | null = null
+): string {
+  if (!fileName) return `reports/${uploadId}/rejections.csv`;
+
+  const slug = fileName
+    .replace(/\.csv$/i, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `reports/${uploadId}/rejections-${slug}.csv`;
+}
+
+/**
+ * Create an empty rejection report for an upload, or one member of a ZIP
+ * The full list is spooled to a temp file so memory stays flat
+ */
+export function createRejectionReport(
+  uploadId: string,
+  fileName: string | null = null,
+  sampleSize: number = REJECTION_SAMPLE_SIZE
+): RejectionReport {
+  return {
+    uploadId,
+    fileName,
+    columns: REPORT_COLUMNS,
+    totalRejected: 0,
+    totalFlagged: 0,
+    byReason: {},
+    sample: [],
+    sampleSize,
+    tempFilePath: join(
+      tmpdir(),
+      `${uploadId}-${Date.now()}-${basename(getRejectionReportPath(uploadId, fileName))}`
+    ),
+    writer: null,
+  };
+}
+
+/**
+ * Lay the report out with a file's own header row instead of the
+ * connections columns; ignored once rows have been written
+ */
+export function setRejectionReportColumns(
+  report: RejectionReport,
+  columns: string[]
+): void {
+  if (!report.writer) {
+    report.columns = columns;
+  }
+}
+
+/**
+ * Record a rejected or flagged row in the report
+ */
+export function recordRejection(
+  report: RejectionReport,
+  rejection: RowRejection
+): void {
+  if (FLAGGED_REASONS.includes(rejection.reason)) {
+    report.totalFlagged++;
+  } else {
+    report.totalRejected++;
+  }
+  report.byReason[rejection.reason] =
+    (report.byReason[rejection.reason] || 0) + 1;
+
+  if (report.sample.length < report.sampleSize) {
+    report.sample.push(rejection);
+  }
+
+  if (!report.writer) {
+    report.writer = createWriteStream(report.tempFilePath);
+    report.writer.write(
+      ["Line", "Reason", ...report.columns].map(escapeCsvValue).join(",") +
+        "\n"
+    );
+  }
+
+  const values = [
+    rejection.line,
+    rejection.reason,
+    ...toReportValues(report.columns, rejection.row),
+  ];
+  report.writer.write(values.map(escapeCsvValue).join(",") + "\n");
+}
+
+/**
+ * Close the temp file and remove it from disk
+ */
+async function closeReportFile(report: RejectionReport): Promise<void> {
+  if (!report.writer) return;
+
+  const writer = report.writer;
+  report.writer = null;
+  await new Promise<void>((resolve, reject) => {
+    writer.end((error?: Error | null) => (error ? reject(error) : resolve()));
+  });
+}
+
+/**
+ * Upload the full rejection list to storage and return the job result summary
+ */
+export async function finalizeRejectionReport(
+  report: RejectionReport
+): Promise<RejectionSummary> {
+  let reportPath: string | null = null;
+
+  if (report.totalRejected + report.totalFlagged > 0) {
+    try {
+      await closeReportFile(report);
+      reportPath = getRejectionReportPath(report.uploadId, report.fileName);
+      await uploadReportFile(reportPath, report.tempFilePath, "text/csv");
+      console.log(
+        `📝 Uploaded rejection report with ${report.totalRejected} rejected and ${report.totalFlagged} flagged rows to ${reportPath}`
+      );
+    } catch (error) {
+      // The summary is still useful without the downloadable file
+      console.warn("⚠️ Failed to upload rejection report:", error);
+      reportPath = null;
+    }
+  }
+
+  await discardRejectionReport(report);
+
+  return {
+    totalRejected: report.totalRejected,
+    totalFlagged: report.totalFlagged,
+    byReason: report.byReason,
+    sample: report.sample,
+    reportPath,
+  };
+}
+
+/**
+ * Drop the report's temp file without uploading it
+ */
+export async function discardRejectionReport(
+  report: RejectionReport
+): Promise<void> {
+  try {
+    await closeReportFile(report);
+    await fs.rm(report.tempFilePath, { force: true });
+  } catch (error) {
+    console.warn("⚠️ Failed to remove rejection report temp file:", error);
+  }
+}
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import { StorageDriver, StoredObject } from "../types";
+import { setStorageDriver } from "../storage";
+import { getChunkIndex, getUploadChunks } from "./storage";
+
+/**
+ * A storage driver that lists the given objects and nothing else
+ */
+function listingDriver(objects: StoredObject[]): StorageDriver {
+  return {
+    name: "local",
+    list: async () => objects,
+    download: async () => null,
+    upload: async () => {},
+    remove: async () => {},
+    getBucketInfo: async () => ({ name: "test", public: false }),
+  };
+}
+
+describe("getChunkIndex", () => {
+  it("reads the index from the trailing .partN suffix", () => {
+    expect(getChunkIndex("upload-1/f.csv.part0")).toBe(0);
+    expect(getChunkIndex("upload-1/f.csv.part12")).toBe(12);
+  });
+
+  it("ignores .part earlier in the file name", () => {
+    expect(getChunkIndex("upload-1/my.partners.csv.part3")).toBe(3);
+    expect(getChunkIndex("upload-1/my.part7.csv.part1")).toBe(1);
+  });
+
+  it("returns -1 for names without a chunk suffix", () => {
+    expect(getChunkIndex("upload-1/my.partners.csv")).toBe(-1);
+    expect(getChunkIndex("upload-1/f.csv.part")).toBe(-1);
+  });
+});
+
+describe("getUploadChunks", () => {
+  afterEach(() => {
+    setStorageDriver(null);
+  });
+
+  it("returns the upload's chunks in index order", async () => {
+    setStorageDriver(
+      listingDriver([
+        { name: "my.partners.csv.part10", size: 1 },
+        { name: "my.partners.csv.part2", size: 1 },
+        { name: "other.csv.part0", size: 1 },
+        { name: "my.partners.csv.part0", size: 1, checksum: "sha256:aa" },
+      ])
+    );
+
+    expect(await getUploadChunks("upload-1", "my.partners.csv")).toEqual([
+      {
+        path: "upload-1/my.partners.csv.part0",
+        size: 1,
+        checksum: "sha256:aa",
+      },
+      { path: "upload-1/my.partners.csv.part2", size: 1 },
+      { path: "upload-1/my.partners.csv.part10", size: 1 },
+    ]);
+  });
+
+  it("fails permanently when the upload has no chunks", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    setStorageDriver(listingDriver([]));
+
+    await expect(getUploadChunks("upload-1", "f.csv")).rejects.toMatchObject({
+      message: "No chunks found for upload upload-1",
+      category: "permanent",
+    });
+  });
+});
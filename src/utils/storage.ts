@@ -1,8 +1,62 @@
-import { supabase } from "../config/supabase";
-import { StorageError, StorageChunk } from "../types";
+import {
+  StorageBucketInfo,
+  StorageChunk,
+  StorageError,
+  WorkerError,
+} from "../types";
 import { Readable } from "stream";
+import { createReadStream } from "fs";
+import { stat } from "fs/promises";
+import { classifyError } from "./errors";
+import { getStorageDriver } from "../storage";
+
+// Chunks downloaded ahead of the one being streamed
+const PREFETCH_CHUNKS = Math.max(
+  parseInt(process.env.STORAGE_PREFETCH_CHUNKS || "3"),
+  1
+);
+// Retries for a single chunk download before the stream fails
+const CHUNK_DOWNLOAD_RETRIES = parseInt(
+  process.env.STORAGE_DOWNLOAD_RETRIES || "3"
+);
+const CHUNK_RETRY_BASE_DELAY = 1000; // 1 second
+const CHUNK_RETRY_MAX_DELAY = 10000; // 10 seconds
+// Size of the pieces a downloaded chunk is pushed in
+const PUSH_SIZE = 64 * 1024;
 
-const STORAGE_BUCKET = process.env.STORAGE_BUCKET || "csv-uploads";
+/**
+ * Sleep utility for retry delays
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Describe a thrown value for an error message
+ */
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Read a stream to the end into one buffer
+ */
+async function readToBuffer(stream: Readable): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const part of stream) {
+    parts.push(Buffer.isBuffer(part) ? part : Buffer.from(part));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Get the chunk index from a stored chunk name ("file.csv.part3"), or -1
+ * when the name has no trailing .partN
+ */
+export function getChunkIndex(path: string): number {
+  const match = path.match(/\.part(\d+)$/);
+  return match ? parseInt(match[1]!) : -1;
+}
 
 /**
  * Get all chunks for an upload from storage
@@ -12,23 +66,23 @@ export async function getUploadChunks(
   filename: string
 ): Promise<StorageChunk[]> {
   try {
-    const { data, error } = await supabase.storage
-      .from(STORAGE_BUCKET)
-      .list(uploadId);
-
-    if (error) {
+    let data;
+    try {
+      data = await getStorageDriver().list(uploadId);
+    } catch (error) {
       throw new StorageError(
-        `Failed to list upload chunks: ${error.message}`,
+        `Failed to list upload chunks: ${describeError(error)}`,
         undefined,
         uploadId
       );
     }
 
-    if (!data || data.length === 0) {
+    if (data.length === 0) {
       throw new StorageError(
         `No chunks found for upload ${uploadId}`,
         undefined,
-        uploadId
+        uploadId,
+        "permanent"
       );
     }
 
@@ -37,15 +91,10 @@ export async function getUploadChunks(
       .filter((file) => file.name.startsWith(filename))
       .map((file) => ({
         path: `${uploadId}/${file.name}`,
-        size: file.metadata?.size || 0,
-        checksum: file.metadata?.checksum,
+        size: file.size,
+        ...(file.checksum && { checksum: file.checksum }),
       }))
-      .sort((a, b) => {
-        // Extract chunk index from filename (e.g., "file.csv.part0", "file.csv.part1")
-        const aIndex = parseInt(a.path.split(".part")[1] || "0");
-        const bIndex = parseInt(b.path.split(".part")[1] || "0");
-        return aIndex - bIndex;
-      });
+      .sort((a, b) => getChunkIndex(a.path) - getChunkIndex(b.path));
 
     return chunks;
   } catch (error) {
@@ -55,215 +104,255 @@ export async function getUploadChunks(
 }
 
 /**
- * Download and combine chunks into a readable stream with proper backpressure
+ * Download one chunk whole, retrying failed attempts on their own
+ * Errors that would fail the same way again, like a failed checksum, are
+ * thrown straight away
  */
-export async function downloadChunksAsStream(
+async function downloadChunk(
+  chunk: StorageChunk,
   uploadId: string,
-  filename: string
-): Promise<Readable> {
-  try {
-    const chunks = await getUploadChunks(uploadId, filename);
-
-    console.log(
-      `📥 Downloading ${chunks.length} chunks for upload ${uploadId}`
-    );
-
-    let currentChunkIndex = 0;
-    let isReading = false;
-    let streamEnded = false;
-
-    const stream = new Readable({
-      async read() {
-        // Prevent concurrent reads
-        if (isReading || streamEnded || currentChunkIndex >= chunks.length) {
-          return;
+  verifyChunk?: (chunk: StorageChunk, data: Buffer) => void
+): Promise<Buffer> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      let buffer: Buffer;
+      try {
+        const data = await getStorageDriver().download(chunk.path);
+        if (!data) {
+          // It was listed moments ago, so it has been deleted since
+          throw new StorageError(
+            `Chunk ${chunk.path} no longer exists in storage`,
+            undefined,
+            uploadId,
+            "permanent"
+          );
         }
+        buffer = await readToBuffer(data);
+      } catch (error) {
+        if (error instanceof WorkerError) throw error;
+        throw new StorageError(
+          `Failed to download chunk ${chunk.path}: ${describeError(error)}`,
+          undefined,
+          uploadId
+        );
+      }
 
-        isReading = true;
-
-        try {
-          while (currentChunkIndex < chunks.length && !streamEnded) {
-            const chunk = chunks[currentChunkIndex];
-            console.log(
-              `📄 Downloading chunk ${currentChunkIndex + 1}/${
-                chunks.length
-              }: ${chunk.path}`
-            );
-
-            const { data, error } = await supabase.storage
-              .from(STORAGE_BUCKET)
-              .download(chunk.path);
-
-            if (error) {
-              this.emit(
-                "error",
-                new StorageError(
-                  `Failed to download chunk ${chunk.path}: ${error.message}`,
-                  undefined,
-                  uploadId
-                )
-              );
-              return;
-            }
-
-            if (!data) {
-              this.emit(
-                "error",
-                new StorageError(
-                  `No data received for chunk ${chunk.path}`,
-                  undefined,
-                  uploadId
-                )
-              );
-              return;
-            }
-
-            // Convert blob to buffer in smaller chunks to manage memory
-            const buffer = Buffer.from(await data.arrayBuffer());
-
-            // Push data in smaller chunks to handle backpressure
-            const CHUNK_SIZE = 64 * 1024; // 64KB chunks
-            let offset = 0;
-
-            while (offset < buffer.length && !streamEnded) {
-              const end = Math.min(offset + CHUNK_SIZE, buffer.length);
-              const subChunk = buffer.subarray(offset, end);
+      verifyChunk?.(chunk, buffer);
+      return buffer;
+    } catch (error) {
+      if (
+        attempt > CHUNK_DOWNLOAD_RETRIES ||
+        classifyError(error).category === "permanent"
+      ) {
+        throw error;
+      }
 
-              // If push returns false, the internal buffer is full
-              if (!this.push(subChunk)) {
-                // Stream will call _read again when ready
-                currentChunkIndex++;
-                offset = end;
-                isReading = false;
-                return;
-              }
+      const delay = Math.min(
+        CHUNK_RETRY_BASE_DELAY * Math.pow(2, attempt - 1),
+        CHUNK_RETRY_MAX_DELAY
+      );
+      console.warn(
+        `⚠️ Chunk ${chunk.path} download attempt ${attempt} failed, retrying in ${delay}ms:`,
+        describeError(error)
+      );
+      await sleep(delay);
+    }
+  }
+}
 
-              offset = end;
-            }
+/**
+ * Download and combine chunks into a readable stream with proper backpressure
+ * Up to STORAGE_PREFETCH_CHUNKS chunks download ahead of the one being
+ * streamed, so memory holds at most that many chunks plus the current one.
+ * Chunks are still pushed in order. verifyChunk sees each chunk whole and may
+ * throw to fail the stream before any of that chunk is pushed
+ */
+export async function downloadChunksAsStream(
+  uploadId: string,
+  chunks: StorageChunk[],
+  verifyChunk?: (chunk: StorageChunk, data: Buffer) => void
+): Promise<Readable> {
+  console.log(
+    `📥 Downloading ${chunks.length} chunks for upload ${uploadId} (${PREFETCH_CHUNKS} at a time)`
+  );
+
+  // Downloads started ahead of the stream, in chunk order
+  const downloads: Array<Promise<Buffer>> = [];
+  let nextChunk = 0;
+  let current: Buffer | null = null;
+  let offset = 0;
+  let pumping = false;
+
+  const prefetch = (): void => {
+    while (
+      nextChunk < chunks.length &&
+      downloads.length < PREFETCH_CHUNKS &&
+      !stream.destroyed
+    ) {
+      const chunk = chunks[nextChunk]!;
+      nextChunk++;
+      console.log(
+        `📄 Downloading chunk ${nextChunk}/${chunks.length}: ${chunk.path}`
+      );
 
-            currentChunkIndex++;
+      const download = downloadChunk(chunk, uploadId, verifyChunk);
+      // A chunk that fails ahead of the stream is reported when it is reached
+      download.catch(() => {});
+      downloads.push(download);
+    }
+  };
+
+  const pump = async (): Promise<void> => {
+    pumping = true;
+    try {
+      while (!stream.destroyed) {
+        if (!current) {
+          prefetch();
+          const download = downloads.shift();
+          if (!download) {
+            stream.push(null);
+            return;
           }
+          // Refill the window before waiting on the next chunk
+          prefetch();
+          current = await download;
+          offset = 0;
+          if (stream.destroyed) return;
+        }
 
-          // End the stream if we've processed all chunks
-          if (currentChunkIndex >= chunks.length) {
-            streamEnded = true;
-            this.push(null);
+        // Push in smaller pieces; when push returns false the stream calls
+        // read again once it has room, and carries on from offset
+        while (offset < current.length) {
+          const end = Math.min(offset + PUSH_SIZE, current.length);
+          const more = stream.push(current.subarray(offset, end));
+          offset = end;
+          if (!more) {
+            if (offset >= current.length) current = null;
+            return;
           }
-        } catch (error) {
-          this.emit(
-            "error",
-            new StorageError(
-              `Error processing chunk: ${
-                error instanceof Error ? error.message : String(error)
-              }`,
-              undefined,
-              uploadId
-            )
-          );
-        } finally {
-          isReading = false;
         }
-      },
-    });
+        current = null;
+      }
+    } finally {
+      pumping = false;
+    }
+  };
+
+  const stream: Readable = new Readable({
+    read() {
+      if (pumping) return;
+      pump().catch((error) => {
+        stream.destroy(
+          error instanceof WorkerError
+            ? error
+            : new StorageError(
+                `Error processing chunk: ${describeError(error)}`,
+                undefined,
+                uploadId
+              )
+        );
+      });
+    },
+  });
 
-    return stream;
-  } catch (error) {
-    console.error("Error preparing chunks for stream:", error);
-    throw error;
-  }
+  return stream;
 }
 
 /**
- * Verify all chunks exist for an upload
+ * Clean up upload chunks after processing
  */
-export async function verifyChunksExist(
-  uploadId: string,
-  filename: string,
-  expectedChunks: number
-): Promise<boolean> {
+export async function cleanupUploadChunks(uploadId: string): Promise<void> {
+  const driver = getStorageDriver();
+
+  let data;
   try {
-    const chunks = await getUploadChunks(uploadId, filename);
+    data = await driver.list(uploadId);
+  } catch (error) {
+    console.error("Error listing files for cleanup:", error);
+    return;
+  }
 
-    if (chunks.length !== expectedChunks) {
-      console.warn(`Expected ${expectedChunks} chunks, found ${chunks.length}`);
-      return false;
-    }
+  if (data.length > 0) {
+    const filesToDelete = data.map((file) => `${uploadId}/${file.name}`);
 
-    // Verify chunk sequence is complete (0, 1, 2, ...)
-    for (let i = 0; i < expectedChunks; i++) {
-      const expectedPath = `${uploadId}/${filename}.part${i}`;
-      const chunkExists = chunks.some((chunk) => chunk.path === expectedPath);
+    console.log(
+      `🧹 Cleaning up ${filesToDelete.length} chunks for upload ${uploadId}`
+    );
 
-      if (!chunkExists) {
-        console.warn(`Missing chunk: ${expectedPath}`);
-        return false;
-      }
+    try {
+      await driver.remove(filesToDelete);
+      console.log(`✅ Successfully cleaned up chunks for upload ${uploadId}`);
+    } catch (error) {
+      console.error("Error cleaning up chunks:", error);
     }
+  }
+}
 
-    return true;
+/**
+ * Upload a generated report file (e.g. a rejection list) to the storage bucket
+ */
+export async function uploadReportFile(
+  path: string,
+  filePath: string,
+  contentType: string
+): Promise<void> {
+  try {
+    const { size } = await stat(filePath);
+    await getStorageDriver().upload(path, createReadStream(filePath), {
+      contentType,
+      contentLength: size,
+    });
   } catch (error) {
-    console.error("Error verifying chunks:", error);
-    return false;
+    throw new StorageError(
+      `Failed to upload report ${path}: ${describeError(error)}`
+    );
   }
 }
 
 /**
- * Clean up upload chunks after processing
+ * Upload an in-memory report (overwrites any existing file)
  */
-export async function cleanupUploadChunks(uploadId: string): Promise<void> {
+export async function uploadReportContent(
+  path: string,
+  content: string,
+  contentType: string
+): Promise<void> {
+  const body = Buffer.from(content, "utf8");
   try {
-    const { data, error } = await supabase.storage
-      .from(STORAGE_BUCKET)
-      .list(uploadId);
-
-    if (error) {
-      console.error("Error listing files for cleanup:", error);
-      return;
-    }
-
-    if (data && data.length > 0) {
-      const filesToDelete = data.map((file) => `${uploadId}/${file.name}`);
-
-      console.log(
-        `🧹 Cleaning up ${filesToDelete.length} chunks for upload ${uploadId}`
-      );
-
-      const { error: deleteError } = await supabase.storage
-        .from(STORAGE_BUCKET)
-        .remove(filesToDelete);
+    await getStorageDriver().upload(path, body, {
+      contentType,
+      contentLength: body.length,
+    });
+  } catch (error) {
+    throw new StorageError(
+      `Failed to upload report ${path}: ${describeError(error)}`
+    );
+  }
+}
 
-      if (deleteError) {
-        console.error("Error cleaning up chunks:", deleteError);
-      } else {
-        console.log(`✅ Successfully cleaned up chunks for upload ${uploadId}`);
-      }
-    }
+/**
+ * Download a report as text, or null when it does not exist
+ */
+export async function downloadReportContent(
+  path: string
+): Promise<string | null> {
+  try {
+    const data = await getStorageDriver().download(path);
+    if (!data) return null;
+    return (await readToBuffer(data)).toString("utf8");
   } catch (error) {
-    console.error("Error during cleanup:", error);
+    throw new StorageError(
+      `Failed to download report ${path}: ${describeError(error)}`
+    );
   }
 }
 
 /**
  * Get storage bucket info
  */
-export async function getStorageBucketInfo(): Promise<{
-  name: string;
-  public: boolean;
-  file_size_limit?: number;
-}> {
+export async function getStorageBucketInfo(): Promise<StorageBucketInfo> {
   try {
-    const { data: buckets, error } = await supabase.storage.listBuckets();
-    if (error) {
-      throw new StorageError(`Failed to list buckets: ${error.message}`);
-    }
-
-    const bucket = buckets.find((b) => b.name === STORAGE_BUCKET);
-
-    if (!bucket) {
-      throw new StorageError(`Storage bucket '${STORAGE_BUCKET}' not found`);
-    }
-
-    return bucket;
+    return await getStorageDriver().getBucketInfo();
   } catch (error) {
     console.error("Error getting storage bucket info:", error);
     throw error;
@@ -0,0 +1,212 @@
+import { Readable } from "stream";
+import {
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  jest,
+} from "@jest/globals";
+import { BatchProcessResult, ExportRecord, JobCheckpoint } from "../types";
+import { registerBuiltInExportSchemas } from "../schemas";
+import { batchInsertRecords } from "./database";
+import { validateAndProcessCSVStream } from "./validation";
+
+jest.mock("./database", () => ({ batchInsertRecords: jest.fn() }));
+
+const insertBatch = jest.mocked(batchInsertRecords);
+
+const HEADER =
+  "First Name,Last Name,URL,Email Address,Company,Position,Connected On";
+
+/**
+ * A connections export with one row per name, connected on the matching
+ * date or 12 Mar 2021
+ */
+function connectionsCsv(names: string[], dates: string[] = []): Readable {
+  const rows = names.map(
+    (name, index) =>
+      `${name},Doe,https://www.linkedin.com/in/${name.toLowerCase()},,Acme,Engineer,${dates[index] ?? "12 Mar 2021"}`
+  );
+  return Readable.from([[HEADER, ...rows].join("\n")]);
+}
+
+function inserted(records: ExportRecord[]): BatchProcessResult[] {
+  return [
+    {
+      inserted_count: records.length,
+      duplicate_count: 0,
+      updated_count: 0,
+      unchanged_count: 0,
+      skipped_count: 0,
+    },
+  ];
+}
+
+/**
+ * Answer batch inserts in call order, each after its own delay; a null
+ * delay fails that batch
+ */
+function answerBatches(delays: Array<number | null>): void {
+  let call = 0;
+  insertBatch.mockImplementation(async (_rpcName, records) => {
+    const batchNumber = ++call;
+    const delay = delays[batchNumber - 1];
+    await new Promise((resolve) => setTimeout(resolve, delay ?? 0));
+    if (delay === null) throw new Error(`Batch ${batchNumber} insert failed`);
+    return inserted(records);
+  });
+}
+
+/**
+ * Import the rows two per batch, three batches at a time, collecting every
+ * checkpoint written
+ */
+async function importRows(
+  csv: Readable,
+  checkpoints: JobCheckpoint[],
+  resumeFrom?: JobCheckpoint
+) {
+  return validateAndProcessCSVStream(
+    csv,
+    "owner-1",
+    "upload-1",
+    2,
+    3,
+    undefined,
+    undefined,
+    {
+      batchSize: 2,
+      onCheckpoint: async (checkpoint) => {
+        checkpoints.push(checkpoint);
+      },
+      ...(resumeFrom && { resumeFrom }),
+    }
+  );
+}
+
+describe("validateAndProcessCSVStream checkpoints", () => {
+  const names = ["Ann", "Ben", "Cat", "Dan", "Eve", "Fay"];
+
+  beforeAll(() => {
+    registerBuiltInExportSchemas();
+  });
+
+  beforeEach(() => {
+    insertBatch.mockReset();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("advances only past batches that completed in sequence", async () => {
+    // Batches 2 and 3 finish while batch 1 is still running
+    answerBatches([30, 0, 10]);
+    const checkpoints: JobCheckpoint[] = [];
+
+    const result = await importRows(connectionsCsv(names), checkpoints);
+
+    expect(result.processed).toBe(6);
+    const batchNumbers = checkpoints.map(
+      (checkpoint) => checkpoint.batchNumber
+    );
+    expect(batchNumbers).toEqual([...batchNumbers].sort((a, b) => a - b));
+    expect(checkpoints[0]!.batchNumber).toBeGreaterThanOrEqual(2);
+    expect(checkpoints[checkpoints.length - 1]).toMatchObject({
+      batchNumber: 3,
+      rowOffset: 6,
+      processedRecords: 6,
+    });
+  });
+
+  it("never advances past a failed batch", async () => {
+    answerBatches([20, null, 0]);
+    const checkpoints: JobCheckpoint[] = [];
+
+    await expect(
+      importRows(connectionsCsv(names), checkpoints)
+    ).rejects.toThrow("Batch 2 insert failed");
+
+    expect(checkpoints.length).toBeGreaterThan(0);
+    for (const checkpoint of checkpoints) {
+      expect(checkpoint.batchNumber).toBeLessThanOrEqual(1);
+      expect(checkpoint.rowOffset).toBeLessThanOrEqual(2);
+    }
+  });
+
+  it("skips the rows a resumed checkpoint already committed", async () => {
+    answerBatches([0, 0]);
+    const checkpoints: JobCheckpoint[] = [];
+
+    const result = await importRows(connectionsCsv(names), checkpoints, {
+      rowOffset: 2,
+      batchNumber: 1,
+      processedRecords: 2,
+      duplicateRecords: 0,
+      updatedRecords: 0,
+      unchangedRecords: 0,
+      skippedRecords: 0,
+      updatedAt: new Date().toISOString(),
+    });
+
+    expect(insertBatch).toHaveBeenCalledTimes(2);
+    const firstBatch = insertBatch.mock.calls[0]![1] as Array<
+      Record<string, unknown>
+    >;
+    expect(firstBatch[0]!["Name"]).toBe("Cat Doe");
+    expect(result.processed).toBe(6);
+    expect(checkpoints[checkpoints.length - 1]).toMatchObject({
+      batchNumber: 3,
+      rowOffset: 6,
+    });
+  });
+
+  it("records the date order in the checkpoint", async () => {
+    answerBatches([0, 0, 0]);
+    const checkpoints: JobCheckpoint[] = [];
+
+    await importRows(
+      connectionsCsv(names, ["03/04/2021", "25/04/2021"]),
+      checkpoints
+    );
+
+    expect(checkpoints.length).toBeGreaterThan(0);
+    for (const checkpoint of checkpoints) {
+      expect(checkpoint.dateOrder).toBe("DMY");
+    }
+  });
+
+  it("reads a resumed file in the date order its checkpoint recorded", async () => {
+    answerBatches([0, 0]);
+    const checkpoints: JobCheckpoint[] = [];
+
+    // The committed rows were read month-first; the rest would settle
+    // day-first on their own
+    await importRows(
+      connectionsCsv(names, ["", "", "03/04/2021", "25/04/2021"]),
+      checkpoints,
+      {
+        rowOffset: 2,
+        batchNumber: 1,
+        processedRecords: 2,
+        duplicateRecords: 0,
+        updatedRecords: 0,
+        unchangedRecords: 0,
+        skippedRecords: 0,
+        dateOrder: "MDY",
+        updatedAt: new Date().toISOString(),
+      }
+    );
+
+    const firstBatch = insertBatch.mock.calls[0]![1] as Array<
+      Record<string, unknown>
+    >;
+    expect(firstBatch.map((record) => record["Connected On"])).toEqual([
+      "2021-03-04",
+      "2021-04-25",
+    ]);
+    expect(checkpoints[checkpoints.length - 1]).toMatchObject({
+      batchNumber: 3,
+      dateOrder: "MDY",
+    });
+  });
+});
@@ -1,21 +1,136 @@
-import { Readable } from "stream";
-import * as Papa from "papaparse";
+import { Readable, Transform, pipeline } from "stream";
+import { StringDecoder } from "string_decoder";
 import * as fastCsv from "fast-csv";
 import {
+  BatchProcessResult,
+  DateOrder,
+  ExportRecord,
+  ExportSchema,
+  ExportSchemaId,
+  FileFormat,
+  JobCancelledError,
+  JobCheckpoint,
   LinkedInConnection,
+  MergeMode,
   ProcessedConnection,
+  RowRejection,
+  RowRejectionReason,
+  TextEncoding,
   ValidationError,
+  WorkerError,
   ProcessingResult,
 } from "../types";
-import { batchInsertConnections } from "./database";
+import { batchInsertRecords } from "./database";
+import {
+  RejectionReport,
+  recordRejection,
+  setRejectionReportColumns,
+} from "./rejection-report";
+import { incrementCounter, recordBatchInsert } from "../monitoring/metrics";
+import {
+  createDateOrderDetector,
+  getDetectedDateOrder,
+  lockDateOrder,
+  parseConnectedOn,
+  recordDateEvidence,
+} from "./dates";
+import { canonicalizeLinkedInUrl } from "./linkedin-url";
+import { createTranscodeStream } from "./encoding";
+import {
+  detectExportSchema,
+  getRegisteredExportSchemaIds,
+} from "../schemas/registry";
 import { createHash } from "crypto";
 
+// Give up looking for the header row once this much preamble has been buffered
+const MAX_HEADER_SEARCH_BYTES = 1024 * 1024;
+
+// Numeric "Connected On" dates are read in this order when nothing in the
+// first DATE_ORDER_LOOKAHEAD_ROWS rows settles whether the day comes first
+const DEFAULT_DATE_ORDER: DateOrder =
+  process.env.CONNECTED_ON_DATE_ORDER === "DMY" ? "DMY" : "MDY";
+const DATE_ORDER_LOOKAHEAD_ROWS = 1000;
+
+// Delimiters tried on each candidate header line, in order; spreadsheet apps
+// save tab, semicolon or pipe separated text depending on locale and settings
+const DELIMITER_FORMATS: Record<string, FileFormat> = {
+  ",": "csv",
+  "\t": "tsv",
+  ";": "semicolon",
+  "|": "pipe",
+};
+
+export interface StreamProcessingOptions {
+  rejectionReport?: RejectionReport;
+  // Skip rows an earlier attempt already committed
+  resumeFrom?: JobCheckpoint;
+  onCheckpoint?: (checkpoint: JobCheckpoint) => Promise<void>;
+  // Stops processing and tears down the download when aborted
+  signal?: AbortSignal;
+  // Replaces the file-size based batch size
+  batchSize?: number;
+  // What to do with rows matching existing connections (default skip)
+  mergeMode?: MergeMode;
+  // Filled with the url_hash of every valid connection, including resumed ones
+  urlHashes?: Set<string>;
+}
+
+export interface StreamProcessingResult {
+  processed: number;
+  duplicates: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  total: number;
+  // Export the header row identified; null if processing stopped before it
+  schema: ExportSchemaId | null;
+  // Delimiter the header row was split on; null along with schema
+  format: FileFormat | null;
+  // Encoding the file was transcoded from; null if nothing was read
+  encoding: TextEncoding | null;
+  // True when the signal stopped processing early; counts are partial
+  cancelled: boolean;
+}
+
 interface BatchManager {
   activeBatches: Set<Promise<void>>;
   maxConcurrency: number;
+  mergeMode: MergeMode;
   processedCount: number;
   duplicateCount: number;
+  updatedCount: number;
+  unchangedCount: number;
+  skippedCount: number;
   errorCount: number;
+  // First batch insert that failed; the import stops on it
+  failure: unknown;
+}
+
+// A formatted row waiting for the file's date order to be known
+interface PendingRow {
+  record: ExportRecord;
+  row: Record<string, any>;
+  rowNumber: number;
+}
+
+// Where the header row was found and how to split the rows after it
+interface DetectedHeader {
+  line: number;
+  schema: ExportSchema;
+  delimiter: string;
+}
+
+interface CheckpointTracker {
+  checkpoint: JobCheckpoint;
+  // Batches that finished ahead of an earlier, still-running batch
+  completedBatches: Map<
+    number,
+    { rowOffset: number; result: BatchProcessResult }
+  >;
+  pendingWrite: Promise<void>;
+  onCheckpoint?: (checkpoint: JobCheckpoint) => Promise<void>;
+  // Locked before the first batch of a file with dates is released
+  dateOrder: DateOrder | null;
 }
 
 /**
@@ -44,7 +159,7 @@ function calculateOptimalConcurrency(fileSizeBytes: number): number {
 /**
  * Get value from row object using case-insensitive header matching
  */
-function getRowValue(row: any, expectedKey: string): any {
+export function getRowValue(row: any, expectedKey: string): any {
   // First try exact match
   if (row[expectedKey] !== undefined) {
     return row[expectedKey];
@@ -100,21 +215,19 @@ function parseLinkedInRow(row: any): LinkedInConnection | null {
   };
 }
 
-// Global counter to limit debug output
-
 /**
- * Validate a CSV row for LinkedIn connections
- * Adapted from existing csvValidation.js
+ * Work out why a CSV row is not a usable LinkedIn connection
+ * Returns null when the row is valid
  */
-export function validateCSVRow(row: any): row is LinkedInConnection {
+export function getRowRejectionReason(row: any): RowRejectionReason | null {
   if (!row || typeof row !== "object") {
-    return false;
+    return "MALFORMED_COLUMNS";
   }
 
   // Parse the row to get LinkedIn connection data
   const parsedRow = parseLinkedInRow(row);
   if (!parsedRow) {
-    return false;
+    return "MALFORMED_COLUMNS";
   }
 
   const {
@@ -125,30 +238,47 @@ export function validateCSVRow(row: any): row is LinkedInConnection {
 
   // Skip empty rows
   if (!firstName && !lastName && !url) {
-    return false;
+    return "EMPTY_ROW";
   }
 
   // Required fields for LinkedIn connections
-  if (!firstName || !lastName || !url) {
-    return false;
+  if (!firstName) {
+    return "MISSING_FIRST_NAME";
+  }
+  if (!lastName) {
+    return "MISSING_LAST_NAME";
+  }
+  if (!url) {
+    return "MISSING_URL";
   }
 
   // Validate LinkedIn URL format
-  const urlPattern = /linkedin\.com\/in\//i;
-  if (!urlPattern.test(url)) {
+  if (!canonicalizeLinkedInUrl(url)) {
+    return "INVALID_URL";
+  }
+
+  return null;
+}
+
+/**
+ * Validate a CSV row for LinkedIn connections
+ * Adapted from existing csvValidation.js
+ */
+export function validateCSVRow(row: any): row is LinkedInConnection {
+  if (getRowRejectionReason(row) !== null) {
     return false;
   }
 
   // Update the original row object to have the correct structure
-  Object.assign(row, parsedRow);
+  Object.assign(row, parseLinkedInRow(row));
 
   return true;
 }
 
 /**
  * Normalise and hash a URL for efficient storage and lookup.
- * - Converts to lowercase.
- * - Removes trailing slashes.
+ * - Canonicalizes LinkedIn profile URLs to https://www.linkedin.com/in/<id>.
+ * - Otherwise converts to lowercase and removes trailing slashes.
  * - Computes a SHA-256 hash.
  * - Uses job-scoped caching for performance.
  */
@@ -162,7 +292,8 @@ export function normalizeAndHashUrl(
   if (!url) {
     return { normalizedUrl: "", hash: "" };
   }
-  const normalized = url.toLowerCase().trim().replace(/\/$/, "");
+  const normalized =
+    canonicalizeLinkedInUrl(url) ?? url.toLowerCase().trim().replace(/\/$/, "");
 
   // Use cache if provided
   if (hashCache && hashCache.has(normalized)) {
@@ -180,6 +311,38 @@ export function normalizeAndHashUrl(
   return { normalizedUrl: normalized, hash };
 }
 
+/**
+ * Reject a row that is blank or missing any of the given columns
+ */
+export function getRequiredFieldsRejection(
+  row: any,
+  fields: string[]
+): RowRejectionReason | null {
+  if (!row || typeof row !== "object") {
+    return "MALFORMED_COLUMNS";
+  }
+
+  const values = Object.values(row);
+  if (values.every((value) => typeof value !== "string" || !value.trim())) {
+    return "EMPTY_ROW";
+  }
+
+  const isMissing = (field: string) =>
+    !String(getRowValue(row, field) ?? "").trim();
+  return fields.some(isMissing) ? "MISSING_REQUIRED_FIELD" : null;
+}
+
+/**
+ * Hash the fields that identify a record, so re-imports of the same export
+ * can be matched against what is already stored
+ */
+export function createRecordHash(parts: Array<string | null>): string {
+  const key = parts
+    .map((part) => (part || "").trim().toLowerCase())
+    .join("\u0000");
+  return createHash("sha256").update(key).digest("hex");
+}
+
 /**
  * Format a validated CSV row for Supabase insertion
  * Adapted from existing csvValidation.js
@@ -187,6 +350,7 @@ export function normalizeAndHashUrl(
 export function formatRowForSupabase(
   row: any,
   owner: string,
+  uploadId: string,
   hashCache?: Map<string, string>
 ): ProcessedConnection {
   // Get values using flexible header matching
@@ -216,6 +380,7 @@ export function formatRowForSupabase(
     Title: position?.trim() || null,
     "Connected On": connectedOn?.trim() || null,
     url_hash: hash,
+    upload_id: uploadId,
   };
 }
 
@@ -223,29 +388,46 @@ export function formatRowForSupabase(
  * Process a batch of connections with proper error handling
  */
 async function processBatch(
-  batch: ProcessedConnection[],
+  batch: ExportRecord[],
   batchNumber: number,
   manager: BatchManager,
+  rpcName: string,
   onProgress?: (progress: number) => Promise<void>,
   estimatedTotalBatches?: number
-): Promise<void> {
-  if (batch.length === 0) return;
+): Promise<BatchProcessResult> {
+  let outcome: BatchProcessResult = {
+    inserted_count: 0,
+    duplicate_count: 0,
+    updated_count: 0,
+    unchanged_count: 0,
+    skipped_count: 0,
+  };
+  if (batch.length === 0) return outcome;
 
   try {
     console.log(`📦 Processing batch ${batchNumber}: ${batch.length} records`);
 
-    const results = await batchInsertConnections(batch);
+    const insertStartTime = Date.now();
+    const results = await batchInsertRecords(rpcName, batch, manager.mergeMode);
+    const insertDuration = (Date.now() - insertStartTime) / 1000;
 
     if (results && results.length > 0) {
-      const result = results[0];
-      manager.processedCount += result.inserted_count || 0;
-      manager.duplicateCount += result.duplicate_count || 0;
+      outcome = results[0];
+      manager.processedCount += outcome.inserted_count;
+      manager.duplicateCount += outcome.duplicate_count;
+      manager.updatedCount += outcome.updated_count;
+      manager.unchangedCount += outcome.unchanged_count;
+      manager.skippedCount += outcome.skipped_count;
 
       console.log(
-        `✅ Batch ${batchNumber} complete: ${result.inserted_count} inserted, ${result.duplicate_count} duplicates`
+        manager.mergeMode === "skip"
+          ? `✅ Batch ${batchNumber} complete: ${outcome.inserted_count} inserted, ${outcome.duplicate_count} duplicates`
+          : `✅ Batch ${batchNumber} complete: ${outcome.inserted_count} inserted, ${outcome.updated_count} updated, ${outcome.unchanged_count} unchanged, ${outcome.skipped_count} skipped`
       );
     }
 
+    recordBatchInsert(insertDuration, outcome);
+
     // Update progress (debounced to avoid too many DB calls)
     if (onProgress && estimatedTotalBatches) {
       const PROGRESS_UPDATE_INTERVAL = 10; // Update every 10 batches (optimized from 5)
@@ -267,9 +449,53 @@ async function processBatch(
   } catch (error) {
     manager.errorCount += batch.length;
     console.error(`❌ Batch ${batchNumber} failed:`, error);
+    throw error;
+  }
+
+  return outcome;
+}
+
+/**
+ * Record a finished batch and advance the checkpoint past every batch that
+ * has now completed in sequence, so a resume never skips uncommitted rows
+ */
+function commitBatch(
+  tracker: CheckpointTracker,
+  batchNumber: number,
+  rowOffset: number,
+  result: BatchProcessResult
+): void {
+  tracker.completedBatches.set(batchNumber, { rowOffset, result });
+
+  let advanced = false;
+  let next = tracker.completedBatches.get(tracker.checkpoint.batchNumber + 1);
+  while (next) {
+    const { checkpoint } = tracker;
+    tracker.completedBatches.delete(checkpoint.batchNumber + 1);
+    tracker.checkpoint = {
+      rowOffset: next.rowOffset,
+      batchNumber: checkpoint.batchNumber + 1,
+      processedRecords: checkpoint.processedRecords + next.result.inserted_count,
+      duplicateRecords:
+        checkpoint.duplicateRecords + next.result.duplicate_count,
+      updatedRecords: checkpoint.updatedRecords + next.result.updated_count,
+      unchangedRecords:
+        checkpoint.unchangedRecords + next.result.unchanged_count,
+      skippedRecords: checkpoint.skippedRecords + next.result.skipped_count,
+      ...(tracker.dateOrder && { dateOrder: tracker.dateOrder }),
+      updatedAt: new Date().toISOString(),
+    };
+    advanced = true;
+    next = tracker.completedBatches.get(tracker.checkpoint.batchNumber + 1);
+  }
 
-    // Don't throw - continue processing other batches
-    // In production, you might want to implement retry logic here
+  if (advanced && tracker.onCheckpoint) {
+    const checkpoint = tracker.checkpoint;
+    const onCheckpoint = tracker.onCheckpoint;
+    // Serialise writes so an older checkpoint never lands after a newer one
+    tracker.pendingWrite = tracker.pendingWrite
+      .then(() => onCheckpoint(checkpoint))
+      .catch((err) => console.warn("Checkpoint update failed:", err));
   }
 }
 
@@ -298,342 +524,526 @@ function addBatchToManager(
 }
 
 /**
- * Preprocess CSV stream to skip notes section and find proper headers
+ * Check whether a line belongs to the LinkedIn notes preamble
+ */
+function isNotesLine(line: string): boolean {
+  const lowerLine = line.toLowerCase();
+  return (
+    lowerLine.includes("notes:") ||
+    lowerLine.includes("when exporting your connection data")
+  );
+}
+
+/**
+ * Error for a file with no header row from a supported export
  */
-async function preprocessCSVStream(stream: Readable): Promise<string> {
-  return new Promise((resolve, reject) => {
-    let csvData = "";
+function missingHeaderError(): ValidationError {
+  return new ValidationError(
+    `Could not find valid header row in CSV file (supported exports: ${getRegisteredExportSchemaIds().join(", ")})`
+  );
+}
 
-    stream.on("data", (chunk) => {
-      csvData += chunk.toString();
-    });
+/**
+ * Match a line against every supported export and delimiter
+ */
+function detectHeader(
+  line: string,
+  lineNumber: number
+): DetectedHeader | null {
+  for (const delimiter of Object.keys(DELIMITER_FORMATS)) {
+    const schema = detectExportSchema(line, delimiter);
+    if (schema) return { line: lineNumber, schema, delimiter };
+  }
+  return null;
+}
 
-    stream.on("end", () => {
+/**
+ * Create a transform that skips the notes section line by line and passes
+ * everything from the header row onwards straight through to the parser
+ * Emits "header" with the DetectedHeader, before any text is passed on
+ */
+function createHeaderDetectionStream(): Transform {
+  const decoder = new StringDecoder("utf8");
+  let pending = "";
+  let lineNumber = 0;
+  let headerFound = false;
+
+  // Consume complete lines from the pending buffer until the header shows up
+  const scanForHeader = (stream: Transform, isFinal: boolean): void => {
+    while (!headerFound) {
+      const newlineIndex = pending.indexOf("\n");
+      if (newlineIndex === -1 && !isFinal) break;
+
+      const lineEnd = newlineIndex === -1 ? pending.length : newlineIndex;
+      const line = pending.slice(0, lineEnd).trim();
+      lineNumber++;
+
+      const header = line ? detectHeader(line, lineNumber) : null;
+
+      if (line && isNotesLine(line)) {
+        console.log(
+          `🔍 Skipping notes line ${lineNumber}: ${line.substring(0, 50)}...`
+        );
+      } else if (header) {
+        headerFound = true;
+        stream.emit("header", header);
+        console.log(
+          `✅ Found ${header.schema.id} header row (${DELIMITER_FORMATS[header.delimiter]}) at line ${lineNumber}: ${line}`
+        );
+        console.log(
+          `📝 Preprocessed CSV: skipped ${lineNumber - 1} lines, streaming the rest`
+        );
+        stream.push(pending);
+        pending = "";
+        return;
+      }
+
+      if (newlineIndex === -1) {
+        pending = "";
+        break;
+      }
+      pending = pending.slice(newlineIndex + 1);
+    }
+
+    if (!headerFound && pending.length > MAX_HEADER_SEARCH_BYTES) {
+      throw missingHeaderError();
+    }
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
       try {
-        // Split into lines
-        const lines = csvData.split("\n");
-        let headerRowIndex = -1;
-
-        // Find the actual header row (skip notes section)
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i].trim();
-
-          // Skip empty lines
-          if (!line) continue;
-
-          // Skip notes section
-          if (
-            line.toLowerCase().includes("notes:") ||
-            line.toLowerCase().includes("when exporting your connection data")
-          ) {
-            console.log(
-              `🔍 Skipping notes line ${i + 1}: ${line.substring(0, 50)}...`
-            );
-            continue;
-          }
-
-          // Check if this looks like a header row
-          const lowerLine = line.toLowerCase();
-          if (
-            lowerLine.includes("first name") &&
-            lowerLine.includes("last name") &&
-            lowerLine.includes("url")
-          ) {
-            headerRowIndex = i;
-            console.log(`✅ Found header row at line ${i + 1}: ${line}`);
-            break;
-          }
-        }
+        const text = decoder.write(chunk);
 
-        if (headerRowIndex === -1) {
-          reject(
-            new ValidationError("Could not find valid header row in CSV file")
-          );
+        if (headerFound) {
+          callback(null, text);
           return;
         }
 
-        // Return CSV data starting from the header row
-        const processedCSV = lines.slice(headerRowIndex).join("\n");
-        console.log(
-          `📝 Preprocessed CSV: skipped ${headerRowIndex} lines, processing ${
-            lines.length - headerRowIndex
-          } lines`
-        );
-        resolve(processedCSV);
+        pending += text;
+        scanForHeader(this, false);
+        callback();
       } catch (error) {
-        reject(error);
+        callback(error as Error);
       }
-    });
+    },
+
+    flush(callback) {
+      try {
+        pending += decoder.end();
+
+        if (headerFound) {
+          callback(null, pending);
+          return;
+        }
 
-    stream.on("error", reject);
+        scanForHeader(this, true);
+        if (!headerFound) {
+          throw missingHeaderError();
+        }
+        callback();
+      } catch (error) {
+        callback(error as Error);
+      }
+    },
   });
 }
 
 /**
  * Stream-based CSV validation and processing with proper concurrency control
  * Optimized with Phase 1 & 2 improvements: hash caching, dynamic batch sizing, fast-csv parser
+ * Rows are pulled from the parser one at a time, so a full set of batch slots
+ * pauses the download instead of buffering the file in memory
  */
 export async function validateAndProcessCSVStream(
   stream: Readable,
   owner: string,
+  uploadId: string,
   batchSize: number,
   maxConcurrency: number,
   onProgress?: (progress: number) => Promise<void>,
-  fileSizeBytes?: number
-): Promise<{ processed: number; duplicates: number; total: number }> {
-  try {
-    // Phase 1 Optimization: Dynamic batch sizing based on file size
-    const optimizedBatchSize = fileSizeBytes
-      ? calculateOptimalBatchSize(fileSizeBytes)
-      : batchSize;
-    const optimizedConcurrency = fileSizeBytes
-      ? calculateOptimalConcurrency(fileSizeBytes)
-      : maxConcurrency;
+  fileSizeBytes?: number,
+  options: StreamProcessingOptions = {}
+): Promise<StreamProcessingResult> {
+  // Phase 1 Optimization: Dynamic batch sizing based on file size
+  const optimizedBatchSize =
+    options.batchSize ??
+    (fileSizeBytes ? calculateOptimalBatchSize(fileSizeBytes) : batchSize);
+  const optimizedConcurrency = fileSizeBytes
+    ? calculateOptimalConcurrency(fileSizeBytes)
+    : maxConcurrency;
+
+  console.log(
+    `🚀 Phase 1 & 2 Optimizations: batchSize=${optimizedBatchSize}, concurrency=${optimizedConcurrency}, parser=fast-csv (streaming)`
+  );
+
+  // Create job-scoped hash cache for performance
+  const jobHashCache = new Map<string, string>();
+
+  let totalRows = 0;
+  let validRows = 0;
+  let batch: ExportRecord[] = [];
+  let batchCounter = 0;
+  let headerLine = 0;
+  // Set by the header row, which always arrives before the first data row
+  let schema = null as ExportSchema | null;
+  let format = null as FileFormat | null;
+  let encoding = null as TextEncoding | null;
+  let dataRowNumber = 0;
+
+  const rejectRow = (
+    line: number,
+    reason: RowRejectionReason,
+    row: RowRejection["row"]
+  ): void => {
+    if (options.rejectionReport) {
+      recordRejection(options.rejectionReport, { line, reason, row });
+    }
+  };
+
+  // Estimate total batches based on file size and optimized batch size
+  const estimatedRows = Math.ceil((fileSizeBytes || 0) / 200); // Rough estimate: ~200 bytes per row
+  const estimatedTotalBatches = Math.max(
+    Math.ceil(estimatedRows / optimizedBatchSize),
+    1
+  ); // Ensure at least 1 batch
+  console.log(
+    `📊 Estimated ${estimatedRows} rows, ${estimatedTotalBatches} batches (optimized batch size: ${optimizedBatchSize})`
+  );
+
+  // Initial progress update (0-10%)
+  if (onProgress) {
+    onProgress(10).catch((err) =>
+      console.warn("Initial progress update failed:", err)
+    );
+  }
 
+  // Checkpoints written before merge modes existed lack the breakdown;
+  // every duplicate was skipped then
+  const resumeFrom: JobCheckpoint | undefined = options.resumeFrom && {
+    ...options.resumeFrom,
+    updatedRecords: options.resumeFrom.updatedRecords ?? 0,
+    unchangedRecords: options.resumeFrom.unchangedRecords ?? 0,
+    skippedRecords:
+      options.resumeFrom.skippedRecords ?? options.resumeFrom.duplicateRecords,
+  };
+  const resumeRowOffset = resumeFrom?.rowOffset || 0;
+  if (resumeFrom) {
     console.log(
-      `🚀 Phase 1 & 2 Optimizations: batchSize=${optimizedBatchSize}, concurrency=${optimizedConcurrency}, parser=fast-csv`
+      `⏩ Resuming from checkpoint: skipping ${resumeFrom.rowOffset} committed rows (batch ${resumeFrom.batchNumber})`
     );
+  }
 
-    // Create job-scoped hash cache for performance
-    const jobHashCache = new Map<string, string>();
-
-    // Phase 2 Optimization: Use fast-csv for better performance
-    // First, preprocess the CSV to skip notes section and find proper headers
-    console.log("🔍 Preprocessing CSV to find proper headers...");
-    const preprocessedCSV = await preprocessCSVStream(stream);
-
-    // Create a new readable stream from the preprocessed data
-    const { Readable } = await import("stream");
-    const preprocessedStream = Readable.from([preprocessedCSV]);
-
-    return new Promise((resolve, reject) => {
-      let totalRows = 0;
-      let validRows = 0;
-      let batch: ProcessedConnection[] = [];
-      let batchCounter = 0;
-      let headerLogged = false;
-
-      // Estimate total batches based on file size and optimized batch size
-      const estimatedRows = Math.ceil(preprocessedCSV.length / 200); // Rough estimate: ~200 chars per row
-      const estimatedTotalBatches = Math.max(
-        Math.ceil(estimatedRows / optimizedBatchSize),
-        1
-      ); // Ensure at least 1 batch
-      console.log(
-        `📊 Estimated ${estimatedRows} rows, ${estimatedTotalBatches} batches (optimized batch size: ${optimizedBatchSize})`
-      );
+  const manager: BatchManager = {
+    activeBatches: new Set(),
+    maxConcurrency: optimizedConcurrency,
+    mergeMode: options.mergeMode ?? "skip",
+    processedCount: resumeFrom?.processedRecords || 0,
+    duplicateCount: resumeFrom?.duplicateRecords || 0,
+    updatedCount: resumeFrom?.updatedRecords || 0,
+    unchangedCount: resumeFrom?.unchangedRecords || 0,
+    skippedCount: resumeFrom?.skippedRecords || 0,
+    errorCount: 0,
+    failure: null,
+  };
 
-      // Initial progress update (0-10%)
-      if (onProgress) {
-        onProgress(10).catch((err) =>
-          console.warn("Initial progress update failed:", err)
-        );
+  const tracker: CheckpointTracker = {
+    checkpoint: resumeFrom || {
+      rowOffset: 0,
+      batchNumber: 0,
+      processedRecords: 0,
+      duplicateRecords: 0,
+      updatedRecords: 0,
+      unchangedRecords: 0,
+      skippedRecords: 0,
+      updatedAt: new Date().toISOString(),
+    },
+    completedBatches: new Map(),
+    pendingWrite: Promise.resolve(),
+    ...(options.onCheckpoint && { onCheckpoint: options.onCheckpoint }),
+    dateOrder: resumeFrom?.dateOrder ?? null,
+  };
+  batchCounter = tracker.checkpoint.batchNumber;
+
+  const processBatchAsync = async (
+    batchToProcess: ExportRecord[],
+    rowOffset: number
+  ): Promise<void> => {
+    await waitForBatchSlot(manager);
+    if (manager.failure) throw manager.failure;
+
+    const currentBatchNumber = ++batchCounter;
+    const batchPromise = processBatch(
+      batchToProcess,
+      currentBatchNumber,
+      manager,
+      schema!.rpcName,
+      onProgress,
+      estimatedTotalBatches
+    ).then(
+      (result) => commitBatch(tracker, currentBatchNumber, rowOffset, result),
+      (error) => {
+        // Never committed, so the checkpoint cannot move past this batch and
+        // a retry writes its rows again
+        manager.failure ??= error;
       }
+    );
 
-      const manager: BatchManager = {
-        activeBatches: new Set(),
-        maxConcurrency: optimizedConcurrency,
-        processedCount: 0,
-        duplicateCount: 0,
-        errorCount: 0,
-      };
+    addBatchToManager(manager, batchPromise);
+  };
 
-      const processBatchAsync = async (
-        batchToProcess: ProcessedConnection[]
-      ): Promise<void> => {
-        await waitForBatchSlot(manager);
-
-        const currentBatchNumber = ++batchCounter;
-        const batchPromise = processBatch(
-          batchToProcess,
-          currentBatchNumber,
-          manager,
-          onProgress,
-          estimatedTotalBatches
-        );
+  // Rows are held back until the file's day/month order is known, so every
+  // date in the schema's dateField is read the same way. Holding all of them,
+  // not just the ambiguous ones, keeps batches in file order for the checkpoint
+  const dateDetector = createDateOrderDetector();
+  let pendingRows: PendingRow[] = [];
+  // Rows already committed were read in this order; so is the rest
+  if (resumeFrom?.dateOrder) {
+    lockDateOrder(dateDetector, resumeFrom.dateOrder);
+  }
 
-        addBatchToManager(manager, batchPromise);
-      };
+  const releasePendingRows = async (order: DateOrder): Promise<void> => {
+    const released = pendingRows;
+    const dateField = schema?.dateField;
+    pendingRows = [];
+    if (dateField) tracker.dateOrder = order;
+
+    for (const { record, row, rowNumber } of released) {
+      if (dateField) {
+        const date = parseConnectedOn(record[dateField], order);
+        if (date.iso) {
+          record[dateField] = date.iso;
+        } else if (date.status !== "empty") {
+          // Kept as the raw string and flagged for the user
+          rejectRow(headerLine + rowNumber, "INVALID_CONNECTED_ON", row);
+        }
+      }
+
+      batch.push(record);
+
+      // Process batch when it reaches the optimized target size; waiting
+      // for a free slot here is what applies backpressure to the download
+      if (batch.length >= optimizedBatchSize) {
+        const batchToProcess = batch;
+        batch = [];
+        await processBatchAsync(batchToProcess, rowNumber);
+      }
+    }
+  };
 
-      // Phase 2 Optimization: Use fast-csv parser for better performance
-      const parser = fastCsv.parse({
+  // Phase 2 Optimization: Use fast-csv parser for better performance
+  // Rows are tagged with their source line so rejections can point back at the file
+  const createRowParser = (delimiter: string) => {
+    const parser = fastCsv
+      .parse({
         headers: true,
+        delimiter,
         maxRows: 0, // No limit
-        strictColumnHandling: false,
-        ignoreEmpty: true,
-      });
+        strictColumnHandling: true,
+        ignoreEmpty: false, // Counted as EMPTY_ROW so line numbers stay exact
+      })
+      .transform((row: any) => ({ row, rowNumber: ++dataRowNumber }));
+
+    // Rows whose column count does not match the header never reach the loop
+    parser.on("data-invalid", (row: string[]) => {
+      totalRows++;
+      incrementCounter("rows_parsed_total");
+      const isEmpty = row.every((value) => !value || !value.trim());
+      rejectRow(
+        headerLine + ++dataRowNumber,
+        isEmpty ? "EMPTY_ROW" : "MALFORMED_COLUMNS",
+        row
+      );
+    });
 
-      parser.on("data", async (row: any) => {
-        totalRows++;
+    // Other exports' rejection reports keep the file's own columns
+    parser.on("headers", (headers: string[]) => {
+      if (options.rejectionReport && schema?.id !== "connections") {
+        setRejectionReportColumns(options.rejectionReport, headers);
+      }
+    });
 
-        // Log headers for debugging on first row
-        if (!headerLogged) {
-          headerLogged = true;
-        }
+    return parser;
+  };
 
-        if (validateCSVRow(row)) {
-          validRows++;
-          const formattedRow = formatRowForSupabase(row, owner, jobHashCache);
-          batch.push(formattedRow);
+  // Everything is transcoded to UTF-8 first. The header row settles the
+  // delimiter, so the parser is set up once it is found; the text after it
+  // waits in the header stream until then
+  const transcoder = createTranscodeStream();
+  transcoder.once("encoding", (detected: TextEncoding) => {
+    encoding = detected;
+  });
+  const headerStream = createHeaderDetectionStream();
+  const headerFound = new Promise<DetectedHeader>((resolve, reject) => {
+    headerStream.once("header", resolve);
+    pipeline(stream, transcoder, headerStream, (error) => {
+      // Errors after the header reach the row loop through the parser
+      if (error) reject(error);
+    });
+  });
 
-          // Process batch when it reaches the optimized target size
-          if (batch.length >= optimizedBatchSize) {
-            const batchToProcess = [...batch];
-            batch = [];
+  // Destroying the source also unblocks a download that has stalled
+  const cancellationError = () =>
+    new JobCancelledError(
+      `Processing cancelled: ${options.signal?.reason ?? "no reason given"}`
+    );
+  const onAbort = () => stream.destroy(cancellationError());
+  if (options.signal?.aborted) {
+    onAbort();
+  } else {
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+  }
 
-            try {
-              await processBatchAsync(batchToProcess);
-            } catch (error) {
-              console.error("Error processing batch:", error);
+  try {
+    const header = await headerFound;
+    headerLine = header.line;
+    schema = header.schema;
+    format = DELIMITER_FORMATS[header.delimiter];
+
+    // pipeline() destroys every stage on failure, so download errors
+    // surface through the parser's async iterator below
+    const rows = pipeline(headerStream, createRowParser(header.delimiter), () => {
+      // Errors are handled by the consuming loop
+    });
 
-            }
-          }
-        }
+    for await (const { row, rowNumber } of rows) {
+      if (options.signal?.aborted) {
+        throw cancellationError();
+      }
 
-        // Log progress periodically
-        if (totalRows % 1000 === 0) {
-          console.log(
-            `📊 Progress: ${totalRows} rows processed, ${validRows} valid, ${manager.activeBatches.size} active batches`
-          );
-        }      });
-
-      parser.on("end", async () => {
-        try {
-          // Process any remaining batch
-          if (batch.length > 0) {
-            await processBatchAsync([...batch]);
-          }
-
-          // Wait for all remaining batches to complete
-          console.log(
-            `⏳ Waiting for ${manager.activeBatches.size} remaining batches to complete...`
+      totalRows++;
+      incrementCounter("rows_parsed_total");
+
+      const rowSchema = schema!;
+      const isConnection = rowSchema.id === "connections";
+      const rejectionReason = rowSchema.validate(row);
+
+      if (rejectionReason) {
+        rejectRow(headerLine + rowNumber, rejectionReason, row);
+      } else {
+        validRows++;
+        incrementCounter("rows_valid_total");
+        if (rowSchema.dateField) {
+          recordDateEvidence(
+            dateDetector,
+            getRowValue(row, rowSchema.dateField)
           );
-          await Promise.all(Array.from(manager.activeBatches));
-
-          // Final progress update (90-100%)
-          if (onProgress) {
-            onProgress(90).catch((err) =>
-              console.warn("Final progress update failed:", err)
-            );
-          }
+        }
 
-          console.log(
-            `🎉 Stream processing complete: ${totalRows} total rows, ${validRows} valid rows`
-          );
-          console.log(
-            `📊 Final results: ${manager.processedCount} inserted, ${manager.duplicateCount} duplicates, ${manager.errorCount} errors`
+        // Rows up to the checkpoint were committed by an earlier attempt
+        if (rowNumber > resumeRowOffset) {
+          const record = rowSchema.format(row, owner, uploadId, jobHashCache);
+          pendingRows.push({ record, row, rowNumber });
+          if (isConnection) options.urlHashes?.add(record.url_hash!);
+        } else if (isConnection && options.urlHashes) {
+          const { hash } = normalizeAndHashUrl(
+            getRowValue(row, "URL"),
+            jobHashCache
           );
-
-          resolve({
-            processed: manager.processedCount,
-            duplicates: manager.duplicateCount,
-            total: validRows,
-          });
-        } catch (error) {
-          reject(error);
+          options.urlHashes.add(hash);
         }
-      });
-
-      parser.on("error", (error: any) => {
-        console.error("Fast-CSV parsing error:", error);
-        console.log("🔄 Falling back to PapaParse parser...");
-
-        // Fallback to PapaParse if fast-csv fails
-        try {
-          const fallbackParser = Papa.parse(Papa.NODE_STREAM_INPUT, {
-            header: true,
-            skipEmptyLines: true,
-            transformHeader: (header: string) => {
-              return header.trim().replace(/^\uFEFF/, "");
-            },
-          });
-
-          // Re-pipe the stream to fallback parser
-          preprocessedStream.pipe(fallbackParser);
-
-          fallbackParser.on("data", async (row: any) => {
-            // Same processing logic as above
-            totalRows++;
-            if (!headerLogged) {
-              headerLogged = true;
-            }
-            if (validateCSVRow(row)) {
-              validRows++;
-              const formattedRow = formatRowForSupabase(
-                row,
-                owner,
-                jobHashCache
-              );
-              batch.push(formattedRow);
-              if (batch.length >= optimizedBatchSize) {
-                const batchToProcess = [...batch];
-                batch = [];
-                try {
-                  await processBatchAsync(batchToProcess);
-                } catch (batchError) {
-                  console.error("Error processing batch:", batchError);
-                }
-              }
-            }
-            if (totalRows % 1000 === 0) {
-              console.log(
-                `📊 Progress: ${totalRows} rows processed, ${validRows} valid, ${manager.activeBatches.size} active batches`
-              );
-            }
-          });
-
-          fallbackParser.on("end", async () => {
-            // Same end logic as above
-            try {
-              if (batch.length > 0) {
-                await processBatchAsync([...batch]);
-              }
-              await Promise.all(Array.from(manager.activeBatches));
-              if (onProgress) {
-                onProgress(90).catch((err) =>
-                  console.warn("Final progress update failed:", err)
-                );
-              }
-              console.log(
-                `🎉 Stream processing complete: ${totalRows} total rows, ${validRows} valid rows`
-              );
-              console.log(
-                `📊 Final results: ${manager.processedCount} inserted, ${manager.duplicateCount} duplicates, ${manager.errorCount} errors`
-              );
-              resolve({
-                processed: manager.processedCount,
-                duplicates: manager.duplicateCount,
-                total: validRows,
-              });
-            } catch (endError) {
-              reject(endError);
-            }
-          });
-
-          fallbackParser.on("error", (fallbackError: any) => {
-            console.error("PapaParse fallback also failed:", fallbackError);
-            reject(
-              new ValidationError(
-                `CSV parsing failed with both parsers: ${error.message}`
-              )
-            );
-          });
-        } catch (fallbackSetupError) {
-          console.error("Failed to setup fallback parser:", fallbackSetupError);
-          reject(new ValidationError(`CSV parsing failed: ${error.message}`));
+
+        if (
+          pendingRows.length > 0 &&
+          (!rowSchema.dateField ||
+            getDetectedDateOrder(dateDetector) ||
+            pendingRows.length >= DATE_ORDER_LOOKAHEAD_ROWS)
+        ) {
+          await releasePendingRows(
+            lockDateOrder(dateDetector, DEFAULT_DATE_ORDER)
+          );
         }
-      });
+      }
 
-      // Start processing the preprocessed stream
-      preprocessedStream.pipe(parser);
-    });
+      // Log progress periodically
+      if (totalRows % 1000 === 0) {
+        console.log(
+          `📊 Progress: ${totalRows} rows processed, ${validRows} valid, ${manager.activeBatches.size} active batches`
+        );
+      }
+    }
+
+    // Process any remaining rows and batch
+    if (pendingRows.length > 0) {
+      await releasePendingRows(lockDateOrder(dateDetector, DEFAULT_DATE_ORDER));
+    }
+    if (batch.length > 0) {
+      await processBatchAsync(batch, dataRowNumber);
+      batch = [];
+    }
+
+    // Wait for all remaining batches to complete
+    console.log(
+      `⏳ Waiting for ${manager.activeBatches.size} remaining batches to complete...`
+    );
+    await Promise.all(Array.from(manager.activeBatches));
+    if (manager.failure) throw manager.failure;
   } catch (error) {
+    // Let in-flight batches settle and the last good checkpoint land before
+    // surfacing the failure, so a retry resumes from it
+    await Promise.allSettled(Array.from(manager.activeBatches));
+    await tracker.pendingWrite;
+
+    if (error instanceof JobCancelledError) {
+      console.log(
+        `🛑 ${error.message}: stopped after ${totalRows} rows, ${manager.processedCount} inserted`
+      );
+      return {
+        processed: manager.processedCount,
+        duplicates: manager.duplicateCount,
+        updated: manager.updatedCount,
+        unchanged: manager.unchangedCount,
+        skipped: manager.skippedCount,
+        total: validRows,
+        schema: schema?.id ?? null,
+        format,
+        encoding,
+        cancelled: true,
+      };
+    }
+
+    if (error instanceof WorkerError) {
+      throw error;
+    }
+
+    console.error("Fast-CSV parsing error:", error);
     throw new ValidationError(
-      `CSV preprocessing failed: ${
+      `CSV parsing failed: ${
         error instanceof Error ? error.message : String(error)
       }`
     );
+  } finally {
+    options.signal?.removeEventListener("abort", onAbort);
   }
+
+  await tracker.pendingWrite;
+
+  // Final progress update (90-100%)
+  if (onProgress) {
+    onProgress(90).catch((err) =>
+      console.warn("Final progress update failed:", err)
+    );
+  }
+
+  console.log(
+    `🎉 Stream processing complete for ${schema?.id} export: ${totalRows} total rows, ${validRows} valid rows`
+  );
+  console.log(
+    `📊 Final results: ${manager.processedCount} inserted, ${manager.duplicateCount} duplicates, ${manager.errorCount} errors`
+  );
+
+  return {
+    processed: manager.processedCount,
+    duplicates: manager.duplicateCount,
+    updated: manager.updatedCount,
+    unchanged: manager.unchangedCount,
+    skipped: manager.skippedCount,
+    total: validRows,
+    schema: schema?.id ?? null,
+    format,
+    encoding,
+    cancelled: false,
+  };
 }
 
 /**
@@ -759,8 +1169,11 @@ export function validateCSVFormat(csvData: string): void {
 
   // Check if first line looks like a header
   const firstLine = lines[0];
-  if (!firstLine.includes(",")) {
-    throw new ValidationError("CSV must be comma-separated");
+  const delimiters = Object.keys(DELIMITER_FORMATS);
+  if (!delimiters.some((delimiter) => firstLine.includes(delimiter))) {
+    throw new ValidationError(
+      "CSV must be comma, tab, semicolon or pipe separated"
+    );
   }
 
   // Basic validation for LinkedIn export format
@@ -0,0 +1,121 @@
+import { Readable } from "stream";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import * as ExcelJS from "exceljs";
+import { isXlsxUpload, xlsxToCsvStream } from "./xlsx";
+
+const HEADER = ["First Name", "Last Name", "URL", "Email Address"];
+
+/**
+ * Build a workbook whose worksheets hold the given rows
+ */
+async function buildWorkbook(
+  ...sheets: ExcelJS.CellValue[][][]
+): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  sheets.forEach((rows, index) => {
+    const worksheet = workbook.addWorksheet(`Sheet${index + 1}`);
+    rows.forEach((values, rowIndex) => {
+      worksheet.getRow(rowIndex + 1).values = values;
+    });
+  });
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+async function convert(workbook: Buffer): Promise<string> {
+  let text = "";
+  for await (const part of xlsxToCsvStream(Readable.from([workbook]))) {
+    text += part.toString();
+  }
+  return text;
+}
+
+describe("xlsxToCsvStream", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("writes the first worksheet as CSV, padding rows to the header", async () => {
+    const workbook = await buildWorkbook(
+      [HEADER, ["Jane", "Doe", "https://www.linkedin.com/in/jane"]],
+      [["Other"], ["sheet"]]
+    );
+
+    expect(await convert(workbook)).toBe(
+      "First Name,Last Name,URL,Email Address\n" +
+        "Jane,Doe,https://www.linkedin.com/in/jane,"
+    );
+  });
+
+  it("keeps empty rows so line numbers match the sheet", async () => {
+    const workbook = await buildWorkbook([HEADER, [], ["Jane", "Doe"]]);
+
+    expect((await convert(workbook)).split("\n")).toEqual([
+      "First Name,Last Name,URL,Email Address",
+      "",
+      "Jane,Doe,,",
+    ]);
+  });
+
+  it("writes date cells as ISO dates", async () => {
+    const workbook = await buildWorkbook([
+      ["Connected On", "Seen"],
+      [new Date(Date.UTC(2021, 2, 12)), new Date("2021-03-12T10:30:00Z")],
+    ]);
+
+    expect((await convert(workbook)).split("\n")[1]).toBe(
+      "2021-03-12,2021-03-12T10:30:00.000Z"
+    );
+  });
+
+  it("writes the target of a linked cell whose text is a label", async () => {
+    const workbook = await buildWorkbook([
+      HEADER,
+      [
+        "Al",
+        "X",
+        { text: "link", hyperlink: "https://www.linkedin.com/in/al" },
+        { text: "Email", hyperlink: "mailto:al@example.com" },
+      ],
+    ]);
+
+    expect((await convert(workbook)).split("\n")[1]).toBe(
+      "Al,X,https://www.linkedin.com/in/al,al@example.com"
+    );
+  });
+
+  it("keeps the text of a linked cell that is itself an address", async () => {
+    const workbook = await buildWorkbook([
+      HEADER,
+      [
+        "Bo",
+        "Y",
+        {
+          text: "https://www.linkedin.com/in/bo",
+          hyperlink: "https://www.linkedin.com/in/bo?trk=profile",
+        },
+      ],
+    ]);
+
+    expect((await convert(workbook)).split("\n")[1]).toBe(
+      "Bo,Y,https://www.linkedin.com/in/bo,"
+    );
+  });
+
+  it("fails files that are not workbooks as validation errors", async () => {
+    await expect(
+      convert(Buffer.from("First Name,Last Name\n"))
+    ).rejects.toThrow("Could not read Excel workbook");
+  });
+});
+
+describe("isXlsxUpload", () => {
+  it("recognises a workbook by its extension or its first entry", async () => {
+    const head = (await buildWorkbook([HEADER])).subarray(0, 286);
+
+    expect(isXlsxUpload("Connections.xlsx", head)).toBe(true);
+    expect(isXlsxUpload("upload.bin", head)).toBe(true);
+    expect(
+      isXlsxUpload("Connections.xlsx", Buffer.from("First Name,Last Name"))
+    ).toBe(false);
+  });
+});
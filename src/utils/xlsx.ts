@@ -0,0 +1,295 @@
+import { EventEmitter, once } from "events";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createInterface } from "readline";
+import { Readable } from "stream";
+import * as ExcelJS from "exceljs";
+import * as fastCsv from "fast-csv";
+import { ValidationError, WorkerError } from "../types";
+import { isZipArchive } from "./zip-archive";
+
+// Bytes to peek at: a ZIP local file header is 30 bytes plus the entry name
+export const XLSX_SNIFF_LENGTH = 30 + 256;
+
+// Parts a workbook's first entry belongs to; LinkedIn's data archive has none
+const WORKBOOK_ENTRY = /^(\[Content_Types\]\.xml$|_rels\/|docProps\/|xl\/)/;
+
+/**
+ * Check whether an upload is an Excel workbook rather than a data archive
+ * Both are ZIPs, so a workbook is told apart by its extension or by the
+ * name of its first entry
+ */
+export function isXlsxUpload(fileName: string, head: Buffer): boolean {
+  if (!isZipArchive(head)) return false;
+  if (/\.xlsx$/i.test(fileName)) return true;
+  if (head.length < 30) return false;
+
+  const nameLength = head.readUInt16LE(26);
+  const firstEntry = head.subarray(30, 30 + nameLength).toString("utf8");
+  return WORKBOOK_ENTRY.test(firstEntry);
+}
+
+// Display text that is an address in its own right, as opposed to a label
+const URL_TEXT = /^(https?:\/\/|www\.)|^[\w-]+(\.[\w-]+)+\//i;
+
+// Parts of the reader's event stream that the exceljs typings leave untyped
+interface SheetHyperlink {
+  ref: string; // e.g. "D2"
+  rId?: string; // missing for links to a place inside the workbook
+}
+
+interface HyperlinkRelationship {
+  rId: string;
+  target: string;
+}
+
+interface HyperlinksReader {
+  id: string; // number in the sheet file name the relationships belong to
+  on(event: "hyperlink", listener: (rel: HyperlinkRelationship) => void): void;
+  read(): Promise<void>;
+}
+
+interface SpooledWorksheet {
+  rowCount: number;
+  // Targets of linked cells, by "row:column"
+  links: Map<string, string>;
+}
+
+/**
+ * Render a cell the way it would appear in a CSV export
+ * Date cells (e.g. Connected On after a round trip through Excel) become ISO
+ * dates, which the date parser already reads. A linked cell whose text is a
+ * label rather than an address (e.g. "link") is rendered as its target
+ */
+function toCellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return "";
+
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    // Date-only cells come back as midnight UTC
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+  }
+
+  if (typeof value === "object") {
+    if ("richText" in value) {
+      return value.richText.map((run) => run.text).join("");
+    }
+    if ("hyperlink" in value) {
+      const text = toCellText(value.text as ExcelJS.CellValue);
+      if (!value.hyperlink || URL_TEXT.test(text.trim())) return text;
+      return value.hyperlink.replace(/^mailto:/i, "");
+    }
+    if ("formula" in value || "sharedFormula" in value) {
+      return toCellText((value.result ?? null) as ExcelJS.CellValue);
+    }
+    if ("error" in value) return "";
+  }
+
+  return String(value);
+}
+
+/**
+ * Turn a cell reference such as "D2" into a "row:column" key
+ */
+function toCellKey(ref: string): string | null {
+  const match = /^\$?([A-Z]+)\$?(\d+)$/i.exec(ref);
+  if (!match) return null;
+
+  let column = 0;
+  for (const letter of match[1]!.toUpperCase()) {
+    column = column * 26 + letter.charCodeAt(0) - 64;
+  }
+  return `${match[2]}:${column}`;
+}
+
+/**
+ * Write the rows of a workbook's first worksheet to a spool file, one JSON
+ * array of [row number, cell texts] per line, and collect its link targets
+ * A sheet lists its links after its rows, and the targets live in another
+ * part that may come later still, so rows cannot be written out as CSV
+ * until the whole sheet has been read
+ */
+async function spoolFirstWorksheet(
+  reader: ExcelJS.stream.xlsx.WorkbookReader,
+  spoolPath: string,
+  isAbandoned: () => boolean
+): Promise<SpooledWorksheet> {
+  const spool = createWriteStream(spoolPath);
+  const linkRefs = new Map<string, string>();
+  const targets = new Map<string, Map<string, string>>();
+  let rowCount = 0;
+  let sheetFile: string | null = null;
+  let sheetRead = false;
+
+  // Worksheet entries are announced just ahead of their reader, which is
+  // the only place that tells which relationships part is the sheet's
+  let entryFile: string | null = null;
+  // The reader is an event emitter, which its typings do not declare
+  const emitter = reader as unknown as EventEmitter;
+  emitter.on("entry", (entry: { type: string; id: string }) => {
+    if (entry.type === "worksheet") entryFile = entry.id;
+  });
+
+  const linksResolved = () => {
+    const sheetTargets = sheetFile ? targets.get(sheetFile) : undefined;
+    return [...linkRefs.values()].every((rId) => sheetTargets?.has(rId));
+  };
+
+  try {
+    const events = { [Symbol.asyncIterator]: () => reader.parse() };
+    for await (const { eventType, value } of events) {
+      if (isAbandoned()) break;
+
+      if (eventType === "hyperlinks") {
+        const rels = value as HyperlinksReader;
+        const relTargets = new Map<string, string>();
+        rels.on("hyperlink", (rel) => relTargets.set(rel.rId, rel.target));
+        await rels.read();
+        targets.set(rels.id, relTargets);
+      } else if (eventType === "worksheet" && !sheetRead) {
+        // Only the first worksheet holds the export
+        sheetFile = entryFile;
+        const worksheet = value as ExcelJS.stream.xlsx.WorksheetReader;
+        const sheetEvents = { [Symbol.asyncIterator]: () => worksheet.parse() };
+
+        for await (const batch of sheetEvents) {
+          for (const { eventType: sheetEvent, value: item } of batch) {
+            if (sheetEvent === "row") {
+              const row = item as ExcelJS.Row;
+              const values = (row.values as ExcelJS.CellValue[])
+                .slice(1)
+                .map(toCellText);
+              rowCount = row.number;
+              if (!spool.write(JSON.stringify([row.number, values]) + "\n")) {
+                await once(spool, "drain");
+              }
+            } else if (sheetEvent === "hyperlink") {
+              const link = item as SheetHyperlink;
+              if (link.rId) linkRefs.set(link.ref, link.rId);
+            }
+          }
+          if (isAbandoned()) break;
+        }
+        sheetRead = true;
+      }
+
+      if (sheetRead && linksResolved()) break;
+    }
+  } finally {
+    await new Promise<void>((resolve, reject) => {
+      spool.end((error?: Error | null) => (error ? reject(error) : resolve()));
+    });
+  }
+
+  const sheetTargets = (sheetFile && targets.get(sheetFile)) || new Map();
+  const links = new Map<string, string>();
+  for (const [ref, rId] of linkRefs) {
+    const key = toCellKey(ref);
+    const target = sheetTargets.get(rId);
+    if (key && target) links.set(key, target);
+  }
+
+  return { rowCount, links };
+}
+
+/**
+ * Stream the first worksheet of an Excel workbook out as CSV text
+ * Worksheets stored ahead of their shared strings are spooled to a temp
+ * file by the reader, and the rows of the first one to a temp file of our
+ * own, so memory holds the shared strings but not the rows
+ */
+export function xlsxToCsvStream(source: Readable): Readable {
+  const output = fastCsv.format<string[], string[]>({ headers: false });
+  const reader = new ExcelJS.stream.xlsx.WorkbookReader(source, {
+    worksheets: "emit",
+    sharedStrings: "cache",
+    styles: "cache", // needed to tell date cells from numbers
+    hyperlinks: "emit", // linked cells may show a label, not the URL
+    entries: "emit", // tells which hyperlinks part belongs to the sheet
+  });
+
+  const drained = () =>
+    new Promise<void>((resolve) => {
+      const done = () => {
+        output.off("drain", done);
+        output.off("close", done);
+        resolve();
+      };
+      output.once("drain", done);
+      output.once("close", done);
+    });
+
+  const convert = async (): Promise<void> => {
+    const spoolDir = await fs.mkdtemp(join(tmpdir(), "xlsx-"));
+    try {
+      const spoolPath = join(spoolDir, "rows.jsonl");
+      const { rowCount, links } = await spoolFirstWorksheet(
+        reader,
+        spoolPath,
+        () => output.destroyed
+      );
+      if (output.destroyed) return;
+
+      // Trailing empty cells are left out of a row, so rows are padded to the
+      // width of the first one with several cells, which is the header row
+      let columnCount = 0;
+      let lineCount = 0;
+
+      const lines = createInterface({ input: createReadStream(spoolPath) });
+      for await (const line of lines) {
+        if (output.destroyed) return;
+        const [rowNumber, values] = JSON.parse(line) as [number, string[]];
+
+        // Empty rows are left out too; writing them keeps line numbers in
+        // rejection reports equal to the sheet's row numbers
+        while (lineCount < rowNumber - 1) {
+          lineCount++;
+          if (!output.write([])) await drained();
+        }
+
+        for (let column = 1; column <= values.length; column++) {
+          const target = links.get(`${rowNumber}:${column}`);
+          if (target) {
+            values[column - 1] = toCellText({
+              text: values[column - 1]!,
+              hyperlink: target,
+            });
+          }
+        }
+        if (!columnCount && values.length > 1) {
+          columnCount = values.length;
+        }
+        while (values.length < columnCount) values.push("");
+
+        lineCount++;
+        if (!output.write(values)) await drained();
+      }
+
+      console.log(`📗 Converted ${rowCount} rows from the first worksheet`);
+      output.end();
+    } finally {
+      await fs.rm(spoolDir, { recursive: true, force: true });
+    }
+  };
+
+  // Stops the download once the CSV is done with, or abandoned by a cancel
+  output.once("close", () => source.destroy());
+  // The workbook reader pipes the source, which does not forward its errors
+  source.once("error", (error) => output.destroy(error));
+
+  // Download failures keep their own error; anything else is a bad workbook
+  convert().catch((error) => {
+    output.destroy(
+      error instanceof WorkerError
+        ? error
+        : new ValidationError(
+            `Could not read Excel workbook: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          )
+    );
+  });
+
+  return output;
+}
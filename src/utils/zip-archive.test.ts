@@ -0,0 +1,334 @@
+import { Readable } from "stream";
+import { crc32, deflateRawSync } from "zlib";
+import { beforeEach, describe, expect, it, jest } from "@jest/globals";
+import { ArchiveError } from "../types";
+import { isZipArchive, peekStream, readZipMembers } from "./zip-archive";
+
+interface TestMember {
+  name: string;
+  data: Buffer;
+  // Size written to the header in place of the real one
+  declaredSize?: number;
+  // Sizes follow the data in a data descriptor, as streaming writers do
+  streamed?: boolean;
+  encrypted?: boolean;
+}
+
+/**
+ * Build a deflated ZIP archive, central directory included
+ */
+function buildZip(members: TestMember[]): Buffer {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  for (const member of members) {
+    const name = Buffer.from(member.name);
+    const compressed = deflateRawSync(member.data);
+    const crc = crc32(member.data);
+    const size = member.declaredSize ?? member.data.length;
+    const flags = (member.streamed ? 0x08 : 0) | (member.encrypted ? 0x01 : 0);
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(flags, 6);
+    header.writeUInt16LE(8, 8);
+    if (!member.streamed) {
+      header.writeUInt32LE(crc, 14);
+      header.writeUInt32LE(compressed.length, 18);
+      header.writeUInt32LE(size, 22);
+    }
+    header.writeUInt16LE(name.length, 26);
+    parts.push(header, name, compressed);
+
+    let length = header.length + name.length + compressed.length;
+    if (member.streamed) {
+      const descriptor = Buffer.alloc(16);
+      descriptor.writeUInt32LE(0x08074b50, 0);
+      descriptor.writeUInt32LE(crc, 4);
+      descriptor.writeUInt32LE(compressed.length, 8);
+      descriptor.writeUInt32LE(size, 12);
+      parts.push(descriptor);
+      length += descriptor.length;
+    }
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(20, 4);
+    entry.writeUInt16LE(20, 6);
+    entry.writeUInt16LE(flags, 8);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(crc, 16);
+    entry.writeUInt32LE(compressed.length, 20);
+    entry.writeUInt32LE(size, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    directory.push(entry, name);
+
+    offset += length;
+  }
+
+  const directoryBytes = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(members.length, 8);
+  end.writeUInt16LE(members.length, 10);
+  end.writeUInt32LE(directoryBytes.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...parts, directoryBytes, end]);
+}
+
+/**
+ * Feed an archive to the reader in small pieces, like a chunked download
+ */
+function zipStream(archive: Buffer): Readable {
+  const pieces: Buffer[] = [];
+  for (let start = 0; start < archive.length; start += 1024) {
+    pieces.push(archive.subarray(start, start + 1024));
+  }
+  return Readable.from(pieces);
+}
+
+async function readText(stream: Readable): Promise<string> {
+  const parts: Buffer[] = [];
+  for await (const part of stream) parts.push(part as Buffer);
+  return Buffer.concat(parts).toString("utf8");
+}
+
+/**
+ * Read every .csv member of an archive, returning name -> content
+ */
+async function readCsvMembers(
+  archive: Buffer,
+  read: typeof readZipMembers = readZipMembers
+) {
+  const contents = new Map<string, string>();
+  const summary = await read(
+    zipStream(archive),
+    (name) => name.endsWith(".csv"),
+    async (member) => {
+      contents.set(member.name, await readText(member.stream));
+    }
+  );
+  return { contents, summary };
+}
+
+/**
+ * Load the module again with the guard limits overridden
+ */
+function loadWithLimits(env: Record<string, string>): typeof readZipMembers {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+  try {
+    let read!: typeof readZipMembers;
+    jest.isolateModules(() => {
+      ({ readZipMembers: read } = require("./zip-archive"));
+    });
+    return read;
+  } finally {
+    process.env = saved;
+  }
+}
+
+// Inflates to 2MB from a couple of kilobytes: a 1000:1 ratio
+const ZEROS = Buffer.alloc(2 * 1024 * 1024);
+
+describe("isZipArchive", () => {
+  it("recognises the local file header signature", () => {
+    expect(isZipArchive(buildZip([]).subarray(0, 4))).toBe(false);
+    expect(
+      isZipArchive(buildZip([{ name: "a.csv", data: Buffer.from("a") }]))
+    ).toBe(true);
+    expect(isZipArchive(Buffer.from("First Name,Last Name"))).toBe(false);
+    expect(isZipArchive(Buffer.from("PK"))).toBe(false);
+  });
+});
+
+describe("peekStream", () => {
+  it("returns the head and replays it ahead of the rest", async () => {
+    const source = Readable.from([
+      Buffer.from("PK\x03"),
+      Buffer.from("\x04rest"),
+    ]);
+
+    const { head, stream } = await peekStream(source, 4);
+
+    expect(head.toString("latin1")).toBe("PK\x03\x04");
+    expect(await readText(stream)).toBe("PK\x03\x04rest");
+  });
+
+  it("handles sources shorter than the peek", async () => {
+    const { head, stream } = await peekStream(
+      Readable.from([Buffer.from("ab")]),
+      4
+    );
+
+    expect(head.toString()).toBe("ab");
+    expect(await readText(stream)).toBe("ab");
+  });
+});
+
+describe("readZipMembers", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("streams the wanted members and skips the rest", async () => {
+    const archive = buildZip([
+      {
+        name: "Basic_LinkedInDataExport/Connections.csv",
+        data: Buffer.from("a,b\n1,2\n"),
+      },
+      {
+        name: "Basic_LinkedInDataExport/Profile.txt",
+        data: Buffer.from("skip"),
+      },
+      {
+        name: "Invitations.csv",
+        data: Buffer.from("c,d\n3,4\n"),
+        streamed: true,
+      },
+    ]);
+
+    const { contents, summary } = await readCsvMembers(archive);
+
+    expect(Object.fromEntries(contents)).toEqual({
+      "Connections.csv": "a,b\n1,2\n",
+      "Invitations.csv": "c,d\n3,4\n",
+    });
+    expect(summary).toEqual({
+      entryCount: 3,
+      inflatedBytes: 16,
+      stopped: false,
+    });
+  });
+
+  it("stops reading when onMember returns false", async () => {
+    const archive = buildZip([
+      { name: "First.csv", data: Buffer.from("1") },
+      { name: "Second.csv", data: Buffer.from("2") },
+    ]);
+    const seen: string[] = [];
+
+    const summary = await readZipMembers(
+      zipStream(archive),
+      () => true,
+      async (member) => {
+        seen.push(member.name);
+        await readText(member.stream);
+        return false;
+      }
+    );
+
+    expect(seen).toEqual(["First.csv"]);
+    expect(summary.stopped).toBe(true);
+  });
+
+  it("refuses encrypted members", async () => {
+    const archive = buildZip([
+      { name: "Connections.csv", data: Buffer.from("a"), encrypted: true },
+    ]);
+
+    await expect(readCsvMembers(archive)).rejects.toThrow(
+      "ZIP member Connections.csv is encrypted"
+    );
+  });
+
+  it("refuses a member whose header claims too high a compression ratio", async () => {
+    const archive = buildZip([{ name: "Connections.csv", data: ZEROS }]);
+
+    await expect(readCsvMembers(archive)).rejects.toThrow(
+      /claims a \d+:1 compression ratio/
+    );
+  });
+
+  it("stops a member that inflates past the ratio its header hides", async () => {
+    const archive = buildZip([
+      { name: "Connections.csv", data: ZEROS, declaredSize: 10 },
+    ]);
+
+    await expect(readCsvMembers(archive)).rejects.toThrow(
+      "inflates past a 100:1 compression ratio"
+    );
+  });
+
+  it("stops a streamed member that inflates past the ratio", async () => {
+    const archive = buildZip([
+      { name: "Connections.csv", data: ZEROS, streamed: true },
+    ]);
+
+    await expect(readCsvMembers(archive)).rejects.toThrow(
+      "inflates past a 100:1 compression ratio"
+    );
+  });
+
+  it("checks members that onMember leaves unread", async () => {
+    const archive = buildZip([
+      { name: "Connections.csv", data: ZEROS, streamed: true },
+    ]);
+
+    await expect(
+      readZipMembers(
+        zipStream(archive),
+        () => true,
+        async () => {}
+      )
+    ).rejects.toThrow(ArchiveError);
+  });
+
+  it("refuses archives with too many entries", async () => {
+    const read = loadWithLimits({ ZIP_MAX_ENTRIES: "2" });
+    const archive = buildZip(
+      ["a.csv", "b.csv", "c.csv"].map((name) => ({
+        name,
+        data: Buffer.from(name),
+      }))
+    );
+
+    await expect(readCsvMembers(archive, read)).rejects.toThrow(
+      "ZIP archive has more than 2 entries"
+    );
+  });
+
+  it("refuses a member declared larger than the entry limit", async () => {
+    const read = loadWithLimits({ ZIP_MAX_ENTRY_BYTES: "1000" });
+    const archive = buildZip([
+      { name: "Connections.csv", data: Buffer.alloc(2000, "a") },
+    ]);
+
+    await expect(readCsvMembers(archive, read)).rejects.toThrow(
+      "ZIP member Connections.csv is 2000 bytes uncompressed (limit 1000)"
+    );
+  });
+
+  it("stops a streamed member that inflates past the entry limit", async () => {
+    const read = loadWithLimits({ ZIP_MAX_ENTRY_BYTES: "1000" });
+    const archive = buildZip([
+      {
+        name: "Connections.csv",
+        data: Buffer.alloc(2000, "a"),
+        streamed: true,
+      },
+    ]);
+
+    await expect(readCsvMembers(archive, read)).rejects.toThrow(
+      "ZIP member Connections.csv inflates past 1000 bytes"
+    );
+  });
+
+  it("stops an archive that inflates past the total limit", async () => {
+    const read = loadWithLimits({ ZIP_MAX_TOTAL_BYTES: "3000" });
+    const archive = buildZip(
+      ["a.csv", "b.csv"].map((name) => ({
+        name,
+        data: Buffer.alloc(2000, "a"),
+      }))
+    );
+
+    await expect(readCsvMembers(archive, read)).rejects.toThrow(
+      "ZIP archive inflates past 3000 bytes"
+    );
+  });
+});
@@ -0,0 +1,286 @@
+import { PassThrough, Readable, pipeline } from "stream";
+import { posix } from "path";
+import * as unzipper from "unzipper";
+import { ArchiveError, WorkerError } from "../types";
+
+// Zip bomb guards; sizes are uncompressed bytes
+const MAX_ZIP_ENTRIES = parseInt(process.env.ZIP_MAX_ENTRIES || "1000");
+const MAX_ZIP_ENTRY_BYTES = parseInt(
+  process.env.ZIP_MAX_ENTRY_BYTES || String(1024 * 1024 * 1024) // 1GB
+);
+const MAX_ZIP_TOTAL_BYTES = parseInt(
+  process.env.ZIP_MAX_TOTAL_BYTES || String(2 * 1024 * 1024 * 1024) // 2GB
+);
+const MAX_ZIP_COMPRESSION_RATIO = parseInt(
+  process.env.ZIP_MAX_COMPRESSION_RATIO || "100"
+);
+// Small members can compress absurdly well without being dangerous
+const COMPRESSION_RATIO_FLOOR_BYTES = 1024 * 1024;
+
+// "PK\x03\x04": every ZIP starts with a local file header
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const ZIP_SIGNATURE_LENGTH = ZIP_SIGNATURE.length;
+
+export interface PeekedStream {
+  head: Buffer;
+  // Replays the peeked bytes followed by the rest of the source
+  stream: Readable;
+}
+
+export interface ZipMember {
+  path: string;
+  name: string; // file name without folders
+  declaredSize: number | null; // from the header, not to be trusted
+  stream: Readable;
+}
+
+export interface ZipReadSummary {
+  entryCount: number;
+  inflatedBytes: number;
+  // True when onMember asked to stop before the end of the archive
+  stopped: boolean;
+}
+
+/**
+ * Read the first bytes of a stream without losing them
+ * Destroying the returned stream also destroys the source
+ */
+export function peekStream(
+  source: Readable,
+  byteCount: number
+): Promise<PeekedStream> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let length = 0;
+
+    const detach = () => {
+      source.off("data", onData);
+      source.off("end", onEnd);
+      source.off("error", onError);
+    };
+
+    const finish = (ended: boolean) => {
+      detach();
+      source.pause();
+
+      const head = Buffer.concat(chunks);
+      const stream = new PassThrough();
+      if (ended) {
+        stream.end(head);
+      } else {
+        stream.write(head);
+        pipeline(source, stream, () => {
+          // Errors reach consumers through the returned stream
+        });
+      }
+      resolve({ head: head.subarray(0, byteCount), stream });
+    };
+
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+      length += chunk.length;
+      if (length >= byteCount) finish(false);
+    };
+    const onEnd = () => finish(true);
+    const onError = (error: Error) => {
+      detach();
+      reject(error);
+    };
+
+    source.on("data", onData);
+    source.once("end", onEnd);
+    source.once("error", onError);
+  });
+}
+
+/**
+ * Check whether a payload starts with a ZIP local file header
+ */
+export function isZipArchive(head: Buffer): boolean {
+  return (
+    head.length >= ZIP_SIGNATURE_LENGTH &&
+    head.subarray(0, ZIP_SIGNATURE_LENGTH).equals(ZIP_SIGNATURE)
+  );
+}
+
+/**
+ * Refuse an entry whose header already gives it away
+ */
+function checkDeclaredEntry(entry: unzipper.Entry): number | null {
+  // Bit 0: the entry is encrypted and would inflate to garbage
+  if (entry.vars.flags & 0x01) {
+    throw new ArchiveError(`ZIP member ${entry.path} is encrypted`);
+  }
+
+  // Zero when the sizes follow the data in a data descriptor
+  const { compressedSize } = entry.vars;
+  const uncompressedSize =
+    (entry.vars as { uncompressedSize?: number }).uncompressedSize || 0;
+  if (!uncompressedSize) return null;
+
+  if (uncompressedSize > MAX_ZIP_ENTRY_BYTES) {
+    throw new ArchiveError(
+      `ZIP member ${entry.path} is ${uncompressedSize} bytes uncompressed (limit ${MAX_ZIP_ENTRY_BYTES})`
+    );
+  }
+  if (
+    compressedSize > 0 &&
+    uncompressedSize > COMPRESSION_RATIO_FLOOR_BYTES &&
+    uncompressedSize / compressedSize > MAX_ZIP_COMPRESSION_RATIO
+  ) {
+    throw new ArchiveError(
+      `ZIP member ${entry.path} claims a ${Math.round(uncompressedSize / compressedSize)}:1 compression ratio (limit ${MAX_ZIP_COMPRESSION_RATIO}:1)`
+    );
+  }
+  return uncompressedSize;
+}
+
+/**
+ * Stream the members of a ZIP archive to onMember one at a time
+ * Members isWanted rejects are skipped without being inflated. Inflated bytes
+ * are counted as they arrive, so a member lying about its size is still
+ * stopped at the limits. onMember may return false to stop reading early
+ */
+export async function readZipMembers(
+  source: Readable,
+  isWanted: (name: string) => boolean,
+  onMember: (member: ZipMember) => Promise<boolean | void>
+): Promise<ZipReadSummary> {
+  const parse = unzipper.Parse();
+  let entryCount = 0;
+  let inflatedBytes = 0;
+  let stopped = false;
+  let failure: Error | null = null;
+  let currentMember: PassThrough | null = null;
+  let work: Promise<void> = Promise.resolve();
+
+  // Compressed bytes delivered to the parser so far
+  let sourceBytes = 0;
+
+  const fail = (error: Error) => {
+    if (failure || stopped) return;
+    failure = error;
+    currentMember?.destroy(error);
+    parse.destroy();
+    source.destroy();
+  };
+
+  parse.on("entry", (entry: unzipper.Entry) => {
+    entryCount++;
+    const name = posix.basename(entry.path.replace(/\\/g, "/"));
+
+    if (entryCount > MAX_ZIP_ENTRIES) {
+      fail(
+        new ArchiveError(`ZIP archive has more than ${MAX_ZIP_ENTRIES} entries`)
+      );
+    }
+
+    // Decided synchronously: autodrain only skips inflating before data flows
+    if (failure || stopped || entry.type === "Directory" || !isWanted(name)) {
+      entry.autodrain();
+      return;
+    }
+
+    let declaredSize: number | null;
+    try {
+      declaredSize = checkDeclaredEntry(entry);
+    } catch (error) {
+      entry.autodrain();
+      fail(error as Error);
+      return;
+    }
+
+    const output = new PassThrough();
+    const compressedStart = sourceBytes;
+    let entryBytes = 0;
+    entry.on("data", (chunk: Buffer) => {
+      entryBytes += chunk.length;
+      inflatedBytes += chunk.length;
+      // Streamed entries only give their compressed size after the data.
+      // Counting what the source has delivered since the entry started
+      // includes the little the parser holds unread, which only makes the
+      // ratio look lower
+      const compressedBytes =
+        entry.vars.compressedSize || sourceBytes - compressedStart;
+
+      if (entryBytes > MAX_ZIP_ENTRY_BYTES) {
+        fail(
+          new ArchiveError(
+            `ZIP member ${entry.path} inflates past ${MAX_ZIP_ENTRY_BYTES} bytes`
+          )
+        );
+      } else if (inflatedBytes > MAX_ZIP_TOTAL_BYTES) {
+        fail(
+          new ArchiveError(
+            `ZIP archive inflates past ${MAX_ZIP_TOTAL_BYTES} bytes`
+          )
+        );
+      } else if (
+        entryBytes > COMPRESSION_RATIO_FLOOR_BYTES &&
+        entryBytes / Math.max(compressedBytes, 1) > MAX_ZIP_COMPRESSION_RATIO
+      ) {
+        fail(
+          new ArchiveError(
+            `ZIP member ${entry.path} inflates past a ${MAX_ZIP_COMPRESSION_RATIO}:1 compression ratio`
+          )
+        );
+      }
+    });
+    entry.on("error", (error: Error) =>
+      fail(new ArchiveError(`Could not inflate ${entry.path}: ${error.message}`))
+    );
+    entry.pipe(output);
+
+    work = work.then(async () => {
+      if (failure || stopped) return;
+
+      currentMember = output;
+      try {
+        const keepReading = await onMember({
+          path: entry.path,
+          name,
+          declaredSize,
+          stream: output,
+        });
+
+        if (keepReading === false) {
+          stopped = true;
+          parse.destroy();
+          source.destroy();
+        } else if (!entry.readableEnded) {
+          // Whatever onMember left unread still has to pass the guards
+          entry.unpipe(output);
+          entry.resume();
+        }
+      } catch (error) {
+        fail(error as Error);
+      } finally {
+        currentMember = null;
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => {
+    parse.once("close", resolve);
+    parse.once("error", (error: Error) => {
+      fail(
+        error instanceof WorkerError
+          ? error
+          : new ArchiveError(`Could not read ZIP archive: ${error.message}`)
+      );
+      resolve();
+    });
+    source.once("error", (error: Error) => {
+      fail(error);
+      resolve();
+    });
+    source.on("data", (chunk: Buffer) => {
+      sourceBytes += chunk.length;
+    });
+    source.pipe(parse);
+  });
+  await work;
+
+  if (failure) throw failure;
+  return { entryCount, inflatedBytes, stopped };
+}
@@ -3,28 +3,51 @@ import { testConnection } from "./config/supabase";
 import { testStorageConnection } from "./utils/storage";
 import {
   getNextJob,
+  releaseDueRetries,
   getJobStats,
   cleanupOldJobs,
   debugJobsTable,
+  markJobCancelled,
+  markJobFailed,
+  updateUploadStatus,
 } from "./utils/database";
+import { registerBuiltInJobHandlers } from "./processors";
+import { registerBuiltInExportSchemas } from "./schemas";
+import { getRegisteredExportSchemaIds } from "./schemas/registry";
 import {
-  processCSVJob,
-  validateJob,
-  getProcessingStats,
-} from "./processors/csv-processor";
+  getJobHandler,
+  getRegisteredJobTypes,
+  getRetryPolicy,
+} from "./processors/registry";
 import {
   startHealthServer,
   startHealthLogging,
 } from "./monitoring/health-server";
+import {
+  startStaleJobReaper,
+  stopStaleJobReaper,
+} from "./monitoring/stale-job-reaper";
 import {
   setWorkerRunning,
   setWorkerShuttingDown,
-  setCurrentJob,
+  addActiveJob,
+  removeActiveJob,
+  getActiveJobCount,
+  isWorkerPaused,
+  isWorkerDraining,
   incrementJobsProcessed,
   setWorkerConfig,
+  registerCleanupHandler,
   getWorkerHealth as getSharedWorkerHealth,
 } from "./monitoring/worker-state";
-import { WorkerConfig, WorkerError } from "./types";
+import { recordJobOutcome } from "./monitoring/metrics";
+import {
+  Job,
+  JobCancelledError,
+  WorkerConfig,
+  WorkerError,
+  ValidationError,
+} from "./types";
 
 // Load environment variables
 dotenv.config();
@@ -37,11 +60,22 @@ const config: WorkerConfig = {
   heartbeatInterval: parseInt(process.env.WORKER_HEARTBEAT_INTERVAL || "30000"),
   storageBucket: process.env.STORAGE_BUCKET || "csv-uploads",
   chunkSize: parseInt(process.env.CHUNK_SIZE || "5242880"),
+  jobConcurrency: Math.max(
+    parseInt(process.env.WORKER_JOB_CONCURRENCY || "1"),
+    1
+  ),
+  staleJobThreshold: parseInt(
+    process.env.WORKER_STALE_JOB_THRESHOLD || "300000"
+  ),
+  reaperInterval: parseInt(process.env.WORKER_REAPER_INTERVAL || "60000"),
+  retryBaseDelay: parseInt(process.env.WORKER_RETRY_BASE_DELAY || "30000"),
+  retryMaxDelay: parseInt(process.env.WORKER_RETRY_MAX_DELAY || "3600000"),
 };
 
 // Local state (non-shared)
 let lastCleanup = Date.now();
 const POLL_BACKOFF_MS = 2000; // backoff when malformed or empty job polled
+let nextJobTypeIndex = 0; // rotated so one busy job type cannot starve the others
 
 // /**
 //  * Create a redacted snapshot of a polled job for safe logging (no PII)
@@ -70,19 +104,143 @@ const POLL_BACKOFF_MS = 2000; // backoff when malformed or empty job polled
 //   return snapshot;
 // }
 
+/**
+ * Poll every registered job type in turn and return the first job found
+ */
+async function pollNextJob(): Promise<Job | null> {
+  // Make retries whose backoff has elapsed visible to get_next_job
+  try {
+    const released = await releaseDueRetries();
+    if (released > 0) {
+      console.log(`⏰ Released ${released} scheduled retries`);
+    }
+  } catch (error) {
+    console.warn("⚠️ Failed to release scheduled retries:", error);
+  }
+
+  const jobTypes = getRegisteredJobTypes();
+
+  for (let i = 0; i < jobTypes.length; i++) {
+    const index = (nextJobTypeIndex + i) % jobTypes.length;
+    const job = await getNextJob(jobTypes[index]);
+
+    if (job) {
+      nextJobTypeIndex = (index + 1) % jobTypes.length;
+      return job;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Run a single job through its registered handler
+ */
+async function runJob(job: Job): Promise<void> {
+  const signal = addActiveJob(job);
+  let succeeded = false;
+  console.log(
+    `📋 Picked up ${job.type} job ${job.id} for upload ${job.upload_id} (${getActiveJobCount()}/${config.jobConcurrency} slots in use)`
+  );
+
+  try {
+    // Dispatch to the handler registered for this job type
+    const handler = getJobHandler(job.type);
+    if (!handler) {
+      throw new ValidationError(`Unsupported job type: ${job.type}`);
+    }
+
+    // Validate job before processing
+    handler.validate(job);
+
+    // Process the job
+    const result = await handler.process(job, { signal });
+
+    // Log results
+    console.log(
+      `✅ Job ${job.id} completed: ${handler.describeResult(result)}`
+    );
+    incrementJobsProcessed();
+    // Handlers report failures they already recorded as success: false
+    succeeded = result?.success !== false;
+  } catch (jobError) {
+    // Handlers leave cancellations to this shared path, so every job type
+    // ends up cancelled rather than retried or dead-lettered
+    if (jobError instanceof JobCancelledError) {
+      console.log(`🛑 Job ${job.id} cancelled: ${jobError.message}`);
+      try {
+        await markJobCancelled(job.id, jobError.message);
+      } catch (error) {
+        console.error(`❌ Failed to mark job ${job.id} cancelled:`, error);
+      }
+    } else {
+      const error = jobError as Error;
+      console.error(`❌ Job ${job.id} failed:`, error.message);
+
+      // Handlers record their own failures; this is an unknown type or a
+      // job that failed validation, which dead-letters straight away
+      try {
+        const failureResult = await markJobFailed(
+          job.id,
+          error,
+          getRetryPolicy(job.type)
+        );
+        // Only an import owns its upload's status; it fails with the job
+        if (job.type === "csv_process") {
+          await updateUploadStatus(
+            job.upload_id,
+            failureResult.willRetry ? "queued" : "failed",
+            null,
+            failureResult.willRetry ? null : error.message
+          );
+        }
+      } catch (updateError) {
+        console.error(
+          `❌ Failed to record failure of job ${job.id}:`,
+          updateError
+        );
+      }
+    }
+  } finally {
+    recordJobOutcome(job.type, succeeded);
+    removeActiveJob(job.id);
+  }
+}
+
 /**
  * Main worker loop
+ * Keeps up to config.jobConcurrency jobs in flight at once
  */
 async function workerLoop(): Promise<void> {
   console.log("🔄 Starting worker loop...");
 
+  const inFlightJobs = new Set<Promise<void>>();
+
   while (
     getSharedWorkerHealth().status === "running" &&
     !getSharedWorkerHealth().isShuttingDown
   ) {
     try {
+      // A drained worker stops polling for good; in-flight jobs finish below
+      if (isWorkerDraining()) {
+        console.log("🚰 Drain requested, no longer polling for jobs");
+        break;
+      }
+
+      // Paused workers keep their in-flight jobs but take no new ones
+      if (isWorkerPaused()) {
+        await sleep(config.pollInterval);
+        continue;
+      }
+
+      // Wait for a free job slot before polling for more work
+      if (inFlightJobs.size >= config.jobConcurrency) {
+        await Promise.race(inFlightJobs);
+        continue;
+      }
+
       // Get next job from queue
-      const job = await getNextJob("csv_process");
+      const job = await pollNextJob();
 
       // If no job returned, wait before polling again
       if (!job) {
@@ -113,27 +271,10 @@ async function workerLoop(): Promise<void> {
       }
 
       // Now safe to reference job.id and job.upload_id
-      setCurrentJob(job);
-      console.log(`📋 Picked up job ${job.id} for upload ${job.upload_id}`);
-
-      try {
-        // Validate job before processing
-        validateJob(job);
-
-        // Process the job
-        const result = await processCSVJob(job);
-
-        // Log results
-        console.log(
-          `✅ Job ${job.id} completed: ${getProcessingStats(result)}`
-        );
-        incrementJobsProcessed();
-      } catch (jobError) {
-        const error = jobError as Error;
-        console.error(`❌ Job ${job.id} failed:`, error.message);
-      } finally {
-        setCurrentJob(null);
-      }
+      const jobPromise: Promise<void> = runJob(job).finally(() => {
+        inFlightJobs.delete(jobPromise);
+      });
+      inFlightJobs.add(jobPromise);
 
       // Periodic cleanup (every hour)
       if (Date.now() - lastCleanup > 3600000) {
@@ -147,6 +288,17 @@ async function workerLoop(): Promise<void> {
     }
   }
 
+  // Let in-flight jobs finish before reporting the loop as stopped
+  if (inFlightJobs.size > 0) {
+    console.log(`⏳ Waiting for ${inFlightJobs.size} in-flight jobs...`);
+    await Promise.allSettled(Array.from(inFlightJobs));
+  }
+
+  if (isWorkerDraining()) {
+    setWorkerRunning(false);
+    console.log("✅ Worker drained; restart the process to resume polling");
+  }
+
   console.log("🛑 Worker loop stopped");
 }
 
@@ -178,27 +330,33 @@ async function performCleanup(): Promise<void> {
 async function gracefulShutdown(signal: string): Promise<void> {
   console.log(`\n🛑 Received ${signal}, starting graceful shutdown...`);
   setWorkerShuttingDown(true);
+  stopStaleJobReaper();
 
-  // Wait for current job to complete (with timeout)
-  const currentJob = getSharedWorkerHealth().currentJob;
-  if (currentJob) {
-    console.log(`⏳ Waiting for current job ${currentJob.id} to complete...`);
+  // Wait for all in-flight jobs to complete (with timeout)
+  const activeJobs = getSharedWorkerHealth().activeJobs;
+  if (activeJobs.length > 0) {
+    console.log(
+      `⏳ Waiting for ${activeJobs.length} in-flight jobs to complete: ${activeJobs
+        .map((job) => job.id)
+        .join(", ")}`
+    );
 
     const shutdownTimeout = 300000; // 5 minutes
     const startTime = Date.now();
 
     while (
-      getSharedWorkerHealth().currentJob &&
+      getActiveJobCount() > 0 &&
       Date.now() - startTime < shutdownTimeout
     ) {
       await sleep(1000);
     }
 
-    if (getSharedWorkerHealth().currentJob) {
+    const unfinishedJobs = getSharedWorkerHealth().activeJobs;
+    if (unfinishedJobs.length > 0) {
       console.log(
-        `⚠️ Shutdown timeout reached, current job ${
-          getSharedWorkerHealth().currentJob.id
-        } may be incomplete`
+        `⚠️ Shutdown timeout reached, jobs ${unfinishedJobs
+          .map((job) => job.id)
+          .join(", ")} may be incomplete`
       );
     }
   }
@@ -214,12 +372,23 @@ async function gracefulShutdown(signal: string): Promise<void> {
 async function startWorker(): Promise<void> {
   try {
     console.log("🚀 CSV Worker Service Starting...");
+
+    // Register job handlers and export schemas before anything polls the queue
+    registerBuiltInJobHandlers();
+    registerBuiltInExportSchemas();
+
     console.log("📋 Configuration:", {
       pollInterval: config.pollInterval,
       batchSize: config.batchSize,
       maxRetries: config.maxRetries,
+      retryBaseDelay: config.retryBaseDelay,
+      retryMaxDelay: config.retryMaxDelay,
+      jobConcurrency: config.jobConcurrency,
       heartbeatInterval: config.heartbeatInterval,
+      staleJobThreshold: config.staleJobThreshold,
       storageBucket: config.storageBucket,
+      jobTypes: getRegisteredJobTypes(),
+      exportSchemas: getRegisteredExportSchemaIds(),
     });
 
     // Test database connection
@@ -250,6 +419,15 @@ async function startWorker(): Promise<void> {
 
     // Set worker configuration in shared state
     setWorkerConfig(config);
+    registerCleanupHandler(performCleanup);
+
+    // Reclaim jobs left running by workers that died without a shutdown
+    if (config.staleJobThreshold <= config.heartbeatInterval * 2) {
+      console.warn(
+        "⚠️ WORKER_STALE_JOB_THRESHOLD is close to the heartbeat interval; healthy jobs may be reclaimed"
+      );
+    }
+    startStaleJobReaper(config.reaperInterval, config.staleJobThreshold);
 
     // Set up signal handlers for graceful shutdown
     process.on("SIGTERM", () => gracefulShutdown("SIGTERM"));